@@ -21,6 +21,9 @@ module.exports = {
     "@typescript-eslint/no-unnecessary-condition": ["warn", { "allowConstantLoopConditions": true }],
 
     "@typescript-eslint/prefer-literal-enum-member": "off",
+
+    // Callbacks that may or may not return something are typed `T | void`.
+    "@typescript-eslint/no-invalid-void-type": "off",
     "@typescript-eslint/no-unused-vars": ["warn", {
       "varsIgnorePattern": "^_",
       "argsIgnorePattern": "^_",
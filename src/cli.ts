@@ -0,0 +1,267 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import {
+  GenerateFlags, ParseOptions, ParseResult, debugDumpFromNode, missingComments, parseFile, print, stringFromCodeLoc, tokenize,
+} from "./metadesk";
+
+/**
+ * Everything the CLI does to the outside world, so that tests can run commands without touching
+ * the file system or the console.
+ */
+export interface CLIHost {
+  // The path "-" means standard input. Throws if the file cannot be read.
+  readFile(path: string): string;
+  writeFile(path: string, contents: string): void;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const nodeHost: CLIHost = {
+  readFile: path => fs.readFileSync(path === "-" ? 0 : path, "utf8"),
+  writeFile: (path, contents) => fs.writeFileSync(path, contents),
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+const generateFlagsFromNames: Record<string, GenerateFlags> = {
+  tree: GenerateFlags.Tree,
+  tags: GenerateFlags.Tags,
+  args: GenerateFlags.TagArguments,
+  children: GenerateFlags.Children,
+  comments: GenerateFlags.Comments,
+  kind: GenerateFlags.NodeKind,
+  flags: GenerateFlags.NodeFlags,
+  location: GenerateFlags.Location,
+  all: GenerateFlags.All,
+};
+
+const usage = `usage: mdesk <command> [options] <files...>
+
+commands:
+  check <files>                report diagnostics, and fail if there are errors
+  fmt [--check] <files>        format files in place; with --check, only list unformatted files
+  dump [--flags=...] <files>   print the parsed tree using debugDumpFromNode
+  tokens <files>               print the tokens of each file
+
+dump flags (comma-separated, default "tree"):
+  ${Object.keys(generateFlagsFromNames).join(", ")}
+
+dialect options, for every command:
+  --hash-in-labels             allow "#" in labels, e.g. C#
+  --crlf-newlines              lex "\r\n" as a single newline
+  --delimiters=strict          require lists to be closed with the delimiter they were opened with
+
+The file "-" is standard input. fmt writes a formatted "-" to standard output.
+`;
+
+// Options for ParseOptions' dialect switches, which every command takes.
+const dialectOptions = ["--hash-in-labels", "--crlf-newlines", "--delimiters"];
+
+// Options that take a value, given as `--name=value` or `--name value`.
+const valueOptions = ["--flags", "--delimiters"];
+
+// Exit codes
+const Success = 0;
+const Failure = 1; // errors in the files, or unformatted files for fmt --check
+const UsageError = 2; // bad arguments or unreadable files
+
+/**
+ * Runs the CLI with the given arguments (not including "node" and the script), and returns the
+ * exit code.
+ */
+export function main(args: string[], host: CLIHost = nodeHost): number {
+  const [command, ...rest] = args;
+  const options: string[] = [];
+  const files: string[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith("--")) {
+      files.push(arg);
+    } else if (valueOptions.includes(arg) && i + 1 < rest.length) {
+      // The value can also be the next argument, as in `--flags tree`.
+      options.push(`${arg}=${rest[i + 1]}`);
+      i++;
+    } else {
+      options.push(arg);
+    }
+  }
+
+  switch (command) {
+    case "check": return commandWithFiles(host, files, options, [], check);
+    case "fmt": return commandWithFiles(host, files, options, ["--check"], fmt);
+    case "dump": return commandWithFiles(host, files, options, ["--flags"], dump);
+    case "tokens": return commandWithFiles(host, files, options, [], tokens);
+    case "help": case "--help": case "-h": {
+      host.stdout(usage);
+      return Success;
+    }
+    default: {
+      host.stderr(args.length === 0 ? usage : `mdesk: unknown command "${command}"\n\n${usage}`);
+      return UsageError;
+    }
+  }
+}
+
+interface SourceFile {
+  filename: string;
+  source: string;
+}
+
+type Command = (host: CLIHost, files: SourceFile[], options: Map<string, string>) => number;
+
+/**
+ * Checks the options and reads the files for a command, then runs it.
+ */
+function commandWithFiles(host: CLIHost, filenames: string[], args: string[], allowed: string[], command: Command): number {
+  const options = new Map<string, string>();
+  for (const arg of args) {
+    const [name, value = ""] = arg.split("=", 2);
+    if (!allowed.includes(name) && !dialectOptions.includes(name)) {
+      host.stderr(`mdesk: unknown option "${name}"\n`);
+      return UsageError;
+    }
+    options.set(name, value);
+  }
+  const delimiters = options.get("--delimiters");
+  if (delimiters !== undefined && delimiters !== "lenient" && delimiters !== "strict") {
+    host.stderr("mdesk: --delimiters must be \"lenient\" or \"strict\"\n");
+    return UsageError;
+  }
+  if (filenames.length === 0) {
+    host.stderr("mdesk: no files given\n");
+    return UsageError;
+  }
+
+  const files: SourceFile[] = [];
+  for (const filename of filenames) {
+    try {
+      files.push({ filename, source: host.readFile(filename) });
+    } catch (e) {
+      host.stderr(`mdesk: cannot read "${filename}": ${e instanceof Error ? e.message : String(e)}\n`);
+      return UsageError;
+    }
+  }
+  return command(host, files, options);
+}
+
+function parseOptionsFromOptions(options: Map<string, string>): ParseOptions {
+  return {
+    hashInLabels: options.has("--hash-in-labels"),
+    crlfNewlines: options.has("--crlf-newlines"),
+    delimiters: options.get("--delimiters") === "strict" ? "strict" : "lenient",
+  };
+}
+
+function parseSourceFile(file: SourceFile, options: Map<string, string>): ParseResult {
+  return parseFile(file.filename === "-" ? "<stdin>" : file.filename, file.source, parseOptionsFromOptions(options));
+}
+
+function reportErrors(host: CLIHost, result: ParseResult) {
+  for (const err of result.fancyErrors()) {
+    host.stderr(err);
+  }
+}
+
+const check: Command = (host, files, options) => {
+  let status = Success;
+  for (const file of files) {
+    const result = parseSourceFile(file, options);
+    reportErrors(host, result);
+    if (result.hasErrors) {
+      status = Failure;
+    }
+  }
+  return status;
+};
+
+/**
+ * Formats files with print. Files with errors are reported and left alone, since printing a
+ * partial tree would lose whatever could not be parsed. So are files whose formatted output
+ * would be missing any of their comments.
+ */
+const fmt: Command = (host, files, options) => {
+  const checkOnly = options.has("--check");
+  const parseOptions = parseOptionsFromOptions(options);
+  let status = Success;
+  for (const file of files) {
+    const result = parseSourceFile(file, options);
+    if (result.hasErrors) {
+      reportErrors(host, result);
+      status = Failure;
+      continue;
+    }
+
+    const formatted = print(result.node, { parseOptions });
+    const lost = missingComments(file.source, formatted, result.node.string, parseOptions);
+    if (lost.length > 0) {
+      host.stderr(`mdesk: not formatting "${file.filename}", since the comment at ${stringFromCodeLoc(lost[0].loc)} would be lost\n`);
+      status = Failure;
+      continue;
+    }
+    if (checkOnly) {
+      if (formatted !== file.source) {
+        host.stdout(`${file.filename}\n`);
+        status = Failure;
+      }
+    } else if (file.filename === "-") {
+      host.stdout(formatted);
+    } else if (formatted !== file.source) {
+      host.writeFile(file.filename, formatted);
+    }
+  }
+  return status;
+};
+
+const dump: Command = (host, files, options) => {
+  let flags = GenerateFlags.Tree;
+  const names = options.get("--flags");
+  if (names !== undefined) {
+    flags = 0;
+    for (const name of names.split(",")) {
+      if (!Object.prototype.hasOwnProperty.call(generateFlagsFromNames, name)) {
+        host.stderr(`mdesk: unknown dump flag "${name}"\n`);
+        return UsageError;
+      }
+      flags |= generateFlagsFromNames[name];
+    }
+  }
+
+  let status = Success;
+  for (const file of files) {
+    const result = parseSourceFile(file, options);
+    reportErrors(host, result);
+    if (result.hasErrors) {
+      status = Failure;
+    }
+    if (files.length > 1) {
+      host.stdout(`// ${file.filename}\n`);
+    }
+    host.stdout(debugDumpFromNode(result.node, 0, "  ", flags) + "\n");
+  }
+  return status;
+};
+
+const tokens: Command = (host, files, options) => {
+  for (const file of files) {
+    if (files.length > 1) {
+      host.stdout(`// ${file.filename}\n`);
+    }
+    for (const token of tokenize(file.source, file.filename, parseOptionsFromOptions(options))) {
+      host.stdout(`${token.loc.line}:${token.loc.column}\t${token.toString()}\n`);
+    }
+  }
+  return Success;
+};
+
+if (require.main === module) {
+  // When the reader of the output goes away early, as in `mdesk tokens f | head`, there is
+  // nothing left to do.
+  process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+    if (err.code !== "EPIPE") {
+      throw err;
+    }
+    process.exit();
+  });
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,612 @@
+#!/usr/bin/env node
+
+import {
+  CodeLoc, Node, NodeFlags, NodeKind, ParseOptions, ParseResult, Severity, Token, TokenKind, WalkFlags, codeLocFromOffset, missingComments,
+  parseFile, preorder, print,
+} from "./metadesk";
+
+/*
+ * A Language Server Protocol server for Metadesk, speaking JSON-RPC over stdio. Only the parts of
+ * the protocol that the server uses are typed here. Documents are synced in full on every change.
+ *
+ * Clients can choose the dialect with the initialization options `hashInLabels`, `crlfNewlines`,
+ * and `delimiters`, which work like the ParseOptions of the same names.
+ */
+
+export interface RequestMessage {
+  jsonrpc: "2.0";
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+export interface NotificationMessage {
+  jsonrpc: "2.0";
+  method: string;
+  params?: unknown;
+}
+
+export interface ResponseMessage {
+  jsonrpc: "2.0";
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+// Lines and characters start at 0, and characters are UTF-16 code units.
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: string;
+  message: string;
+}
+
+export interface DocumentSymbol {
+  name: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children: DocumentSymbol[];
+}
+
+export interface FoldingRange {
+  startLine: number;
+  endLine: number;
+}
+
+export interface Hover {
+  contents: { kind: "markdown"; value: string };
+  range: Range;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+interface FormattingOptions {
+  tabSize: number;
+  insertSpaces: boolean;
+}
+
+// From the LSP specification
+const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+};
+const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+};
+const SymbolKind = {
+  Namespace: 3,
+  Field: 8,
+};
+const TextDocumentSyncKind = {
+  Full: 1,
+};
+
+interface Document {
+  uri: string;
+  version: number;
+  text: string;
+  lineStarts: number[];
+  result: ParseResult;
+
+  // Named nodes (nodes with a label and a list) by label, for go-to-definition.
+  definitions: Map<string, Node[]>;
+}
+
+/**
+ * Thrown while handling a request to answer it with an error.
+ */
+class ResponseError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/**
+ * The server itself, independent of how messages are transported. Each message passed to
+ * handleMessage is answered synchronously through `send`; startServer connects it to stdio.
+ */
+export class LanguageServer {
+  send: (message: Message) => void;
+  onExit: (code: number) => void;
+  documents: Map<string, Document>;
+  initialized: boolean;
+  shutdownRequested: boolean;
+  parseOptions: ParseOptions;
+
+  constructor(send: (message: Message) => void, onExit: (code: number) => void = () => undefined) {
+    this.send = send;
+    this.onExit = onExit;
+    this.documents = new Map();
+    this.initialized = false;
+    this.shutdownRequested = false;
+    this.parseOptions = {};
+  }
+
+  /**
+   * Handles a message from the client. Requests that fail get an error response, and anything
+   * else that goes wrong is dropped, so that one bad message doesn't stop the server.
+   */
+  handleMessage(message: Message) {
+    const value: unknown = message;
+    if (!isObject(value)) {
+      this.fail(null, ErrorCodes.InvalidRequest, "a message must be an object");
+      return;
+    }
+    if (!("method" in message)) {
+      return; // The server never sends requests, so there are no responses to handle.
+    }
+    try {
+      if ("id" in message) {
+        this.handleRequest(message);
+      } else {
+        this.handleNotification(message);
+      }
+    } catch (e) {
+      if ("id" in message) {
+        const code = e instanceof ResponseError ? e.code : ErrorCodes.InternalError;
+        this.fail(message.id, code, e instanceof Error ? e.message : String(e));
+      }
+    }
+  }
+
+  /**
+   * Answers a message whose JSON could not be parsed.
+   */
+  handleParseError(error: Error) {
+    this.fail(null, ErrorCodes.ParseError, error.message);
+  }
+
+  fail(id: number | string | null, code: number, message: string) {
+    this.send({ jsonrpc: "2.0", id, error: { code, message } });
+  }
+
+  handleRequest(request: RequestMessage) {
+    const respond = (result: unknown) => this.send({ jsonrpc: "2.0", id: request.id, result });
+
+    if (!this.initialized && request.method !== "initialize") {
+      throw new ResponseError(ErrorCodes.ServerNotInitialized, "the server has not been initialized");
+    }
+    if (this.shutdownRequested) {
+      throw new ResponseError(ErrorCodes.InvalidRequest, "the server is shutting down");
+    }
+
+    switch (request.method) {
+      case "initialize": {
+        this.parseOptions = parseOptionsFromParams(request.params);
+        this.initialized = true;
+        respond({
+          capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Full,
+            documentSymbolProvider: true,
+            foldingRangeProvider: true,
+            hoverProvider: true,
+            definitionProvider: true,
+            documentFormattingProvider: true,
+          },
+          serverInfo: { name: "mdesk" },
+        });
+      } break;
+      case "shutdown": {
+        this.shutdownRequested = true;
+        respond(null);
+      } break;
+      case "textDocument/documentSymbol": {
+        const doc = this.documentFromParams(request.params);
+        respond(doc ? symbolsFromNodes(doc, doc.result.node.children) : null);
+      } break;
+      case "textDocument/foldingRange": {
+        const doc = this.documentFromParams(request.params);
+        respond(doc ? foldingRanges(doc.result.node) : null);
+      } break;
+      case "textDocument/hover": {
+        const doc = this.documentFromParams(request.params);
+        const position = positionFromParams(request.params);
+        respond(doc ? hover(doc, position) : null);
+      } break;
+      case "textDocument/definition": {
+        const doc = this.documentFromParams(request.params);
+        const position = positionFromParams(request.params);
+        respond(doc ? definition(doc, position) : null);
+      } break;
+      case "textDocument/formatting": {
+        const doc = this.documentFromParams(request.params);
+        const options = formattingOptionsFromParams(request.params);
+        respond(doc ? format(doc, options, this.parseOptions) : null);
+      } break;
+      default: {
+        throw new ResponseError(ErrorCodes.MethodNotFound, `unsupported method "${request.method}"`);
+      }
+    }
+  }
+
+  handleNotification(notification: NotificationMessage) {
+    switch (notification.method) {
+      case "textDocument/didOpen": {
+        const textDocument = isObject(notification.params) ? notification.params.textDocument : undefined;
+        const text = isObject(textDocument) ? textDocument.text : undefined;
+        if (typeof text !== "string") {
+          throw invalidParams("expected the text of the document");
+        }
+        this.updateDocument(uriFromParams(notification.params), versionFromParams(notification.params), text);
+      } break;
+      case "textDocument/didChange": {
+        // Changes are full texts, so only the last one matters.
+        const changes = isObject(notification.params) ? notification.params.contentChanges : undefined;
+        const change: unknown = Array.isArray(changes) && changes.length > 0 ? changes[changes.length - 1] : undefined;
+        if (!isObject(change) || typeof change.text !== "string") {
+          throw invalidParams("expected at least one change with the full text of the document");
+        }
+        this.updateDocument(uriFromParams(notification.params), versionFromParams(notification.params), change.text);
+      } break;
+      case "textDocument/didClose": {
+        const uri = uriFromParams(notification.params);
+        this.documents.delete(uri);
+        this.publishDiagnostics(uri, []);
+      } break;
+      case "exit": {
+        this.onExit(this.shutdownRequested ? 0 : 1);
+      } break;
+    }
+  }
+
+  updateDocument(uri: string, version: number, text: string) {
+    const result = parseFile(uri, text, { ...this.parseOptions, lossless: true });
+    const definitions = new Map<string, Node[]>();
+    for (const node of preorder(result.node, WalkFlags.Tags | WalkFlags.TagArguments)) {
+      if (node.kind === NodeKind.Main && nodeIsNamedList(node)) {
+        definitions.set(node.string, [...definitions.get(node.string) ?? [], node]);
+      }
+    }
+    const doc = { uri, version, text, lineStarts: lineStartsFromText(text), result, definitions };
+    this.documents.set(uri, doc);
+
+    this.publishDiagnostics(uri, result.errors.map(err => ({
+      range: rangeFromOffsets(doc, err.offset, Math.min(err.offset + 1, text.length)),
+      severity: {
+        [Severity.Error]: DiagnosticSeverity.Error,
+        [Severity.Warning]: DiagnosticSeverity.Warning,
+        [Severity.Note]: DiagnosticSeverity.Information,
+      }[err.severity],
+      code: err.code,
+      source: "mdesk",
+      message: err.message,
+    })));
+  }
+
+  publishDiagnostics(uri: string, diagnostics: Diagnostic[]) {
+    this.send({ jsonrpc: "2.0", method: "textDocument/publishDiagnostics", params: { uri, diagnostics } });
+  }
+
+  documentFromParams(params: unknown): Document | undefined {
+    return this.documents.get(uriFromParams(params));
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function invalidParams(message: string): ResponseError {
+  return new ResponseError(ErrorCodes.InvalidParams, `invalid params: ${message}`);
+}
+
+// The params of most document methods have the document's URI in `textDocument`.
+function uriFromParams(params: unknown): string {
+  const textDocument = isObject(params) ? params.textDocument : undefined;
+  if (!isObject(textDocument) || typeof textDocument.uri !== "string") {
+    throw invalidParams("expected textDocument.uri");
+  }
+  return textDocument.uri;
+}
+
+function versionFromParams(params: unknown): number {
+  const textDocument = isObject(params) ? params.textDocument : undefined;
+  if (!isObject(textDocument) || typeof textDocument.version !== "number") {
+    throw invalidParams("expected textDocument.version");
+  }
+  return textDocument.version;
+}
+
+function positionFromParams(params: unknown): Position {
+  const position = isObject(params) ? params.position : undefined;
+  if (!isObject(position) || !isCount(position.line) || !isCount(position.character)) {
+    throw invalidParams("expected a position");
+  }
+  return { line: position.line, character: position.character };
+}
+
+function parseOptionsFromParams(params: unknown): ParseOptions {
+  const options = isObject(params) ? params.initializationOptions : undefined;
+  if (options === undefined || options === null) {
+    return {};
+  }
+  const { hashInLabels = false, crlfNewlines = false, delimiters = "lenient" } = isObject(options) ? options : {};
+  if (!isObject(options) || typeof hashInLabels !== "boolean" || typeof crlfNewlines !== "boolean" || (delimiters !== "lenient" && delimiters !== "strict")) {
+    throw invalidParams("expected initializationOptions with the dialect options");
+  }
+  return { hashInLabels, crlfNewlines, delimiters };
+}
+
+function formattingOptionsFromParams(params: unknown): FormattingOptions {
+  const options = isObject(params) ? params.options : undefined;
+  if (!isObject(options) || !isCount(options.tabSize) || typeof options.insertSpaces !== "boolean") {
+    throw invalidParams("expected formatting options");
+  }
+  return { tabSize: options.tabSize, insertSpaces: options.insertSpaces };
+}
+
+function nodeIsNamedList(node: Node): boolean {
+  return node.string !== "" && (node.children.length > 0 || (node.flags & NodeFlags.MaskSetDelimiters) !== 0);
+}
+
+function labelTokenFromNode(node: Node): Token | undefined {
+  const labelKinds = TokenKind.Identifier | TokenKind.Numeric | TokenKind.StringLiteral | TokenKind.Symbol | TokenKind.BrokenStringLiteral;
+  for (const item of node.syntax) {
+    if (item instanceof Node) {
+      continue;
+    }
+    if (item.kind & labelKinds) {
+      return item;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the node whose label is at the given offset. The end of a label counts too, since that
+ * is where the cursor is after typing it.
+ */
+function nodeAtOffset(root: Node, offset: number): Node | undefined {
+  for (const node of preorder(root, WalkFlags.Tags | WalkFlags.TagArguments)) {
+    const label = labelTokenFromNode(node);
+    if (label && label.offset <= offset && offset <= label.offset + label.rawString.length) {
+      return node;
+    }
+  }
+  return undefined;
+}
+
+function symbolsFromNodes(doc: Document, nodes: Node[]): DocumentSymbol[] {
+  const symbols: DocumentSymbol[] = [];
+  for (const node of nodes) {
+    if (!nodeIsNamedList(node)) {
+      continue;
+    }
+    const children = symbolsFromNodes(doc, node.children);
+    const label = labelTokenFromNode(node);
+    symbols.push({
+      name: node.string,
+      kind: children.length > 0 ? SymbolKind.Namespace : SymbolKind.Field,
+      range: rangeFromCodeLocs(node.loc, node.endLoc),
+      selectionRange: label ? rangeFromOffsets(doc, label.offset, label.offset + label.rawString.length) : rangeFromCodeLocs(node.loc, node.loc),
+      children,
+    });
+  }
+  return symbols;
+}
+
+/**
+ * Explicit lists that span several lines fold down to their first line, leaving the closing
+ * delimiter visible.
+ */
+function foldingRanges(root: Node): FoldingRange[] {
+  const ranges: FoldingRange[] = [];
+  for (const node of preorder(root, WalkFlags.Tags | WalkFlags.TagArguments)) {
+    const delimiters = node.syntax.filter((item): item is Token => !(item instanceof Node) && item.kind === TokenKind.Reserved);
+    const opener = delimiters.find(token => "([{".includes(token.string));
+    const closer = delimiters.reverse().find(token => ")]}".includes(token.string));
+    if (node.kind !== NodeKind.Main || !opener || !closer) {
+      continue;
+    }
+    const startLine = opener.loc.line - 1;
+    const endLine = closer.loc.line - 2;
+    if (endLine > startLine) {
+      ranges.push({ startLine, endLine });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Shows the comments attached to the node under the cursor, or if it has none, the comments of
+ * the node it refers to.
+ */
+function hover(doc: Document, position: Position): Hover | null {
+  const node = nodeAtOffset(doc.result.node, offsetFromPosition(doc, position));
+  const label = node && labelTokenFromNode(node);
+  if (!node || !label) {
+    return null;
+  }
+
+  const commentsFromNode = (n: Node) => [n.prevComment, n.nextComment].map(c => c.trim()).filter(c => c !== "");
+  let comments = commentsFromNode(node);
+  if (comments.length === 0) {
+    const definitions = doc.definitions.get(node.string) ?? [];
+    comments = definitions.map(commentsFromNode).find(c => c.length > 0) ?? [];
+  }
+  if (comments.length === 0) {
+    return null;
+  }
+  return {
+    contents: { kind: "markdown", value: comments.join("\n\n") },
+    range: rangeFromOffsets(doc, label.offset, label.offset + label.rawString.length),
+  };
+}
+
+/**
+ * Identifiers, including tag names, go to the named nodes with the same label.
+ */
+function definition(doc: Document, position: Position): Location[] | null {
+  const node = nodeAtOffset(doc.result.node, offsetFromPosition(doc, position));
+  if (!node || !(node.flags & NodeFlags.Identifier)) {
+    return null;
+  }
+  const targets = (doc.definitions.get(node.string) ?? []).filter(target => target !== node);
+  if (targets.length === 0) {
+    return null;
+  }
+  return targets.map(target => {
+    const label = labelTokenFromNode(target);
+    const range = label ? rangeFromOffsets(doc, label.offset, label.offset + label.rawString.length) : rangeFromCodeLocs(target.loc, target.endLoc);
+    return { uri: doc.uri, range };
+  });
+}
+
+/**
+ * Formats the whole document with print. Documents with errors are not formatted, since the
+ * parts that could not be parsed would be lost, and neither are documents whose formatted text
+ * would be missing any of their comments.
+ */
+function format(doc: Document, options: FormattingOptions, parseOptions: ParseOptions): TextEdit[] | null {
+  if (doc.result.hasErrors) {
+    return null;
+  }
+  const indent = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+  const newText = print(doc.result.node, { indent, parseOptions });
+  if (missingComments(doc.text, newText, "", parseOptions).length > 0) {
+    return null;
+  }
+  if (newText === doc.text) {
+    return [];
+  }
+  return [{ range: rangeFromOffsets(doc, 0, doc.text.length), newText }];
+}
+
+function lineStartsFromText(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function offsetFromPosition(doc: Document, position: Position): number {
+  const line = Math.min(position.line, doc.lineStarts.length - 1);
+  return Math.min(doc.lineStarts[line] + position.character, doc.text.length);
+}
+
+function positionFromCodeLoc(loc: CodeLoc): Position {
+  return { line: Math.max(0, loc.line - 1), character: Math.max(0, loc.column - 1) };
+}
+
+function rangeFromCodeLocs(start: CodeLoc, end: CodeLoc): Range {
+  return { start: positionFromCodeLoc(start), end: positionFromCodeLoc(end) };
+}
+
+function rangeFromOffsets(doc: Document, start: number, end: number): Range {
+  return rangeFromCodeLocs(codeLocFromOffset(doc.text, start), codeLocFromOffset(doc.text, end));
+}
+
+/**
+ * Splits a byte stream into JSON-RPC messages, which are framed by a `Content-Length` header.
+ * Frames that aren't valid JSON are skipped and passed to `onParseError`.
+ */
+export class MessageReader {
+  buffer: Buffer;
+  onParseError: (error: Error) => void;
+
+  constructor(onParseError: (error: Error) => void = () => undefined) {
+    this.buffer = Buffer.alloc(0);
+    this.onParseError = onParseError;
+  }
+
+  /**
+   * Adds a chunk of input, and returns any messages it completes.
+   */
+  push(chunk: Buffer | string): Message[] {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === "string" ? Buffer.from(chunk) : chunk]);
+    const messages: Message[] = [];
+    while (true) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) {
+        break;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const length = header.match(/Content-Length: *(\d+)/i);
+      if (!length) {
+        // Without a length, there is no way to find the next message; drop the header.
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const start = headerEnd + 4;
+      const end = start + parseInt(length[1]);
+      if (this.buffer.length < end) {
+        break;
+      }
+      const json = this.buffer.subarray(start, end).toString("utf8");
+      this.buffer = this.buffer.subarray(end);
+      try {
+        messages.push(JSON.parse(json) as Message);
+      } catch (e) {
+        this.onParseError(e instanceof Error ? e : new Error(String(e)));
+      }
+    }
+    return messages;
+  }
+}
+
+export function frameFromMessage(message: Message): string {
+  const json = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(json, "utf8")}\r\n\r\n${json}`;
+}
+
+/**
+ * Runs the server on the given streams, stdin and stdout by default, until the client sends
+ * "exit".
+ */
+export function startServer(input: NodeJS.ReadableStream = process.stdin, output: NodeJS.WritableStream = process.stdout) {
+  // Anything else written to stdout would corrupt the protocol.
+  console.log = console.error;
+
+  const server = new LanguageServer(
+    message => output.write(frameFromMessage(message)),
+    code => process.exit(code),
+  );
+  const reader = new MessageReader(error => server.handleParseError(error));
+  input.on("data", (chunk: Buffer) => {
+    for (const message of reader.push(chunk)) {
+      server.handleMessage(message);
+    }
+  });
+}
+
+if (require.main === module) {
+  startServer();
+}
@@ -86,8 +86,6 @@
  * 
  */
 
-const DEBUG = true;
-
 export enum TokenKind {
   Invalid = 0,
 
@@ -114,6 +112,7 @@ const Label = (
 );
 const WhitespaceLine = TokenKind.Whitespace | TokenKind.Comment;
 const WhitespaceAll = TokenKind.Whitespace | TokenKind.Newline | TokenKind.Comment;
+const BadTokens = TokenKind.BrokenComment | TokenKind.BadCharacter | TokenKind.Reserved;
 
 export enum NodeKind {
   // Generated by parser
@@ -122,6 +121,10 @@ export enum NodeKind {
   // Parsed from user Metadesk code
   Main,
   Tag,
+
+  // Kinds added later go last, so that the values of the ones above never change.
+  Project, // The root of a parseProject result. Its children are File nodes.
+  ErrorMarker, // Stands in for source that could not be parsed. Its string is the skipped text.
 }
 
 export class Node {
@@ -130,7 +133,33 @@ export class Node {
   string: string;
   rawString: string;
   offset: number;
-  comment: string;
+
+  /**
+   * Comments attached to the node by the parser. The rules for which node owns a comment are:
+   *
+   * - A comment on the same line after a node is that node's post-comment (`nextComment`) if no
+   *   other node starts later on that line. Within a line, it belongs to the last node, and a
+   *   comment at the end of an implicit list belongs to the node that owns the list, e.g. the
+   *   field in `x: u64 // size`. A separator may come before or after the comment.
+   * - Any other comment belongs to the next node in the same list, and the last one before that
+   *   node (or after its tags, if there is one there) is its pre-comment (`prevComment`).
+   *   Comments before the first tag also belong to that tag.
+   * - Comments after the last node in a list that are not its post-comments belong to the list:
+   *   they are the `endComments` of the node that owns the list (the File, at the top level).
+   *
+   * `comments` has every comment token attached to the node, in source order, and
+   * `postComments` has the ones among them that come after the node.
+   */
+  prevComment: string;
+  nextComment: string;
+  comments: Token[];
+  postComments: Token[];
+  endComments: Token[];
+
+  // The locations of the start and end of the node in its source. Set by the parser; nodes
+  // created by hand have unknown locations (line and column 0).
+  loc: CodeLoc;
+  endLoc: CodeLoc;
 
   next: Node | undefined;
   prev: Node | undefined;
@@ -139,13 +168,26 @@ export class Node {
   children: Node[];
   tags: Node[];
 
+  // Only filled in when parsing with the `lossless` option. The trivia are the whitespace and
+  // comments before and after the node, and `syntax` is the rest of the node's source: its own
+  // tokens, interleaved with its tags and children in source order. See printLossless.
+  leadingTrivia: Token[];
+  trailingTrivia: Token[];
+  syntax: (Token | Node)[];
+
   constructor(kind: NodeKind, str: string, rawStr: string, offset: number) {
     this.kind = kind;
     this.flags = NodeFlags.None;
     this.string = str;
     this.rawString = rawStr;
     this.offset = offset;
-    this.comment = "";
+    this.prevComment = "";
+    this.nextComment = "";
+    this.comments = [];
+    this.postComments = [];
+    this.endComments = [];
+    this.loc = unknownCodeLoc(offset);
+    this.endLoc = unknownCodeLoc(offset + rawStr.length);
     
     this.next = undefined;
     this.prev = undefined;
@@ -153,843 +195,4205 @@ export class Node {
 
     this.children = [];
     this.tags = [];
+
+    this.leadingTrivia = [];
+    this.trailingTrivia = [];
+    this.syntax = [];
   }
-}
 
-// TODO: This sucks and isn't universally useful. Error messages should actually show the source
-// as it appears. Other things should not. I dunno.
-function sanitize(str: string): string {
-  str = str.replace(/\n/g, "\\n");
-  str = str.replace(/\t/g, "\\t");
-  return str;
-}
+  // The pre-comment, under its original name.
+  get comment(): string {
+    return this.prevComment;
+  }
 
-export class ParseResult {
-  node: Node;
-  #ctx: ParseContext;
+  set comment(comment: string) {
+    this.prevComment = comment;
+  }
 
-  constructor(node: Node, ctx: ParseContext) {
-    this.node = node;
-    this.#ctx = ctx;
+  get firstChild(): Node | undefined {
+    return this.children[0];
   }
 
-  get errors() {
-    return this.#ctx.errors;
+  get lastChild(): Node | undefined {
+    return this.children[this.children.length - 1];
   }
 
-  fancyErrors() {
-    return this.errors.map(err => {
-      const amt = 20;
-      const before = sanitize(this.#ctx.source.slice(err.offset - amt, err.offset));
-      const problem = sanitize(this.#ctx.source.slice(err.offset, err.offset + 1));
-      const after = sanitize(this.#ctx.source.slice(err.offset + 1, err.offset + amt));
-      const pad = " ".repeat(before.length);
-      return `ERROR: ${err.message}
- |
- | ${before}${problem}${after}
- | ${pad}^
- |
-`;
-    });
+  /**
+   * Returns the first child whose string matches `name`, if any.
+   */
+  childFromString(name: string, flags: MatchFlags = MatchFlags.None): Node | undefined {
+    return findMatching(this.children, node => labelMatches(node, name, flags), flags);
+  }
+
+  childFromIndex(index: number): Node | undefined {
+    return this.children[index];
+  }
+
+  /**
+   * Returns the index of this node within its list of siblings, by counting `prev` links. Tags
+   * are indexed within their node's tag list, and tag arguments within their tag's arguments.
+   */
+  indexFromNode(): number {
+    let index = 0;
+    for (let n = this.prev; n; n = n.prev) {
+      index += 1;
+    }
+    return index;
+  }
+
+  /**
+   * Follows `parent` links to the top of the tree. For parsed nodes, this is the File node.
+   */
+  rootFromNode(): Node {
+    let root: Node | undefined;
+    for (const ancestor of this.ancestors()) {
+      root = ancestor;
+    }
+    return root ?? this;
+  }
+
+  get tagCount(): number {
+    return this.tags.length;
+  }
+
+  /**
+   * Returns the first tag whose label matches `name`, if any. (Or the last, with
+   * `MatchFlags.FindLast`.)
+   */
+  tagFromString(name: string, flags: MatchFlags = MatchFlags.None): Node | undefined {
+    return findMatching(this.tags, tag => labelMatches(tag, name, flags), flags);
+  }
+
+  hasTag(name: string, flags: MatchFlags = MatchFlags.None): boolean {
+    return this.tagFromString(name, flags) !== undefined;
+  }
+
+  /**
+   * Returns the argument at `index` of the tag matching `tagName`. For example, on the node
+   * `@alias(GetButtonHeld) bool`, `tagArgFromIndex("alias", 0)` returns `GetButtonHeld`.
+   */
+  tagArgFromIndex(tagName: string, index: number, flags: MatchFlags = MatchFlags.None): Node | undefined {
+    return this.tagFromString(tagName, flags)?.childFromIndex(index);
+  }
+
+  /**
+   * Returns the argument matching `argName` of the tag matching `tagName`. The same flags are
+   * used to match both.
+   */
+  tagArgFromString(tagName: string, argName: string, flags: MatchFlags = MatchFlags.None): Node | undefined {
+    return this.tagFromString(tagName, flags)?.childFromString(argName, flags);
+  }
+
+  /**
+   * Iterates over this node's parent, its parent's parent, and so on up to the root.
+   */
+  *ancestors(): Generator<Node> {
+    for (let n = this.parent; n; n = n.parent) {
+      yield n;
+    }
+  }
+
+  /**
+   * Iterates over every other node in the same list as this one, in order. The node itself is
+   * not included.
+   */
+  *siblings(): Generator<Node> {
+    const before: Node[] = [];
+    for (let n = this.prev; n; n = n.prev) {
+      before.push(n);
+    }
+    for (const n of before.reverse()) {
+      yield n;
+    }
+    for (let n = this.next; n; n = n.next) {
+      yield n;
+    }
   }
 }
 
-export function parse(source: string): ParseResult {
-  const ctx = new ParseContext(source);
-    
-  const root = new Node(NodeKind.File, "", source, 0);
-  root.children = ctx.parseExplicitChildren();
+function findMatching(nodes: Node[], cond: (node: Node) => boolean, flags: MatchFlags): Node | undefined {
+  if (flags & MatchFlags.FindLast) {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      if (cond(nodes[i])) {
+        return nodes[i];
+      }
+    }
+    return undefined;
+  }
+  return nodes.find(cond);
+}
 
-  return new ParseResult(root, ctx);
+/**
+ * Sets the `parent`, `next`, and `prev` links for a list of nodes. The nodes are assumed to be
+ * in their final order.
+ */
+function linkNodes(parent: Node, nodes: Node[]) {
+  for (const [i, node] of nodes.entries()) {
+    node.parent = parent;
+    node.prev = nodes[i - 1];
+    node.next = nodes[i + 1];
+  }
 }
 
-export enum NodeFlags {
+export enum WalkFlags {
   None = 0,
 
-  HasParenLeft    = 1 << 0,
-  HasParenRight   = 1 << 1,
-  HasBracketLeft  = 1 << 2,
-  HasBracketRight = 1 << 3,
-  HasBraceLeft    = 1 << 4,
-  HasBraceRight   = 1 << 5,
+  // Visit each node's tags before its children. TagArguments also visits the tags' children.
+  Tags         = 1 << 0,
+  TagArguments = 1 << 1,
+}
 
-  MaskSetDelimiters = 0x3F << 0,
+export enum WalkAction {
+  Continue, // Keep walking.
+  Skip,     // Don't visit the node's tags and children. Only meaningful from `enter`.
+  Stop,     // End the walk without calling anything else.
+}
 
-  IsBeforeSemicolon   = 1 << 6,
-  IsAfterSemicolon    = 1 << 7,
-  IsBeforeComma       = 1 << 8,
-  IsAfterComma        = 1 << 9,
+/**
+ * Callbacks for `walk`. `enter` is called before a node's tags and children are visited and
+ * `leave` after, including for skipped nodes. `depth` is 0 for the node the walk started at.
+ * Returning nothing is the same as returning WalkAction.Continue.
+ */
+export interface Visitor {
+  enter?(node: Node, depth: number): WalkAction | void;
+  leave?(node: Node, depth: number): WalkAction | void;
+}
 
-  MaskSeparators = 0xF << 6,
+/**
+ * Visits a node and everything in it depth-first, in source order. Returns false if the visitor
+ * stopped the walk.
+ */
+export function walk(node: Node, visitor: Visitor, flags: WalkFlags = WalkFlags.None): boolean {
+  return walkNode(node, visitor, flags, 0);
+}
 
-  StringSingleQuote   = 1 << 10,
-  StringDoubleQuote   = 1 << 11,
-  StringTick          = 1 << 12,
-  StringTriplet       = 1 << 13,
-    
-  MaskStringDelimiters = 0xF << 10,
-    
-  Numeric         = 1 << 14,
-  Identifier      = 1 << 15,
-  StringLiteral   = 1 << 16,
-  Symbol          = 1 << 17,
-    
-  MaskLabelKind = 0xF << 14,
+function walkNode(node: Node, visitor: Visitor, flags: WalkFlags, depth: number): boolean {
+  const action = visitor.enter?.(node, depth);
+  if (action === WalkAction.Stop) {
+    return false;
+  }
+  if (action !== WalkAction.Skip) {
+    for (const n of nodesToWalk(node, flags)) {
+      if (!walkNode(n, visitor, flags, depth + 1)) {
+        return false;
+      }
+    }
+  }
+  return visitor.leave?.(node, depth) !== WalkAction.Stop;
+}
 
-  All = ~0,
+/**
+ * Yields a node and everything in it, each node before its tags and children.
+ */
+export function* preorder(node: Node, flags: WalkFlags = WalkFlags.None): Generator<Node> {
+  // An explicit stack instead of recursion, since nested generators make each step cost as
+  // much as the depth of the tree.
+  const stack = [node];
+  for (let n = stack.pop(); n; n = stack.pop()) {
+    yield n;
+    const next = nodesToWalk(n, flags);
+    for (let i = next.length - 1; i >= 0; i--) {
+      stack.push(next[i]);
+    }
+  }
 }
 
 /**
- * The names of node flags, excluding the special Mask flags.
- * Use in conjunction with the Mask flags for nice debug output.
+ * Yields a node and everything in it, each node after its tags and children.
  */
-export const nodeFlagNames = [
-  // MaskSetDelimiters
-  "HasParenLeft",
-  "HasParenRight",
-  "HasBracketLeft",
-  "HasBracketRight",
-  "HasBraceLeft",
-  "HasBraceRight",
-  
-  // MaskSeparators
-  "IsBeforeSemicolon",
-  "IsAfterSemicolon",
-  "IsBeforeComma",
-  "IsAfterComma",
+export function* postorder(node: Node, flags: WalkFlags = WalkFlags.None): Generator<Node> {
+  // Each node goes on the stack twice: once to push its tags and children, and once to be
+  // yielded after them.
+  const stack: [Node, boolean][] = [[node, false]];
+  for (let entry = stack.pop(); entry; entry = stack.pop()) {
+    const [n, expanded] = entry;
+    if (expanded) {
+      yield n;
+      continue;
+    }
+    stack.push([n, true]);
+    const next = nodesToWalk(n, flags);
+    for (let i = next.length - 1; i >= 0; i--) {
+      stack.push([next[i], false]);
+    }
+  }
+}
 
-  // MaskStringDelimiters
-  "StringSingleQuote",
-  "StringDoubleQuote",
-  "StringTick",
-  "StringTriplet",
+// The nodes directly in a node that a walk visits, in source order. This is a copy, so the walk
+// isn't thrown off if a visitor changes the lists.
+function nodesToWalk(node: Node, flags: WalkFlags): Node[] {
+  const tags = flags & WalkFlags.Tags ? node.tags : [];
+  const children = node.kind !== NodeKind.Tag || flags & WalkFlags.TagArguments ? node.children : [];
+  return [...tags, ...children];
+}
 
-  // MaskLabelKind
-  "Numeric",
-  "Identifier",
-  "StringLiteral",
-  "Symbol",
-] as const;
+/**
+ * The callback for `transform`. Returning a node replaces the given node with it, returning an
+ * array replaces the node with all of the array's nodes (so an empty array removes it), and
+ * returning nothing keeps it.
+ */
+export type Transformer = (node: Node, depth: number) => Node | Node[] | void;
 
-export class Token {
-  kind: TokenKind;
-  string: string;
-  rawString: string;
-  flags: NodeFlags;
-  remaining: string;
+/**
+ * Rewrites everything in `root` from the bottom up: a node's tags and children are transformed
+ * before the node itself. The root is not passed to the transformer, and neither are the nodes
+ * it returns. Every list that changes is relinked, and nodes removed from the tree are unlinked.
+ */
+export function transform(root: Node, transformer: Transformer, flags: WalkFlags = WalkFlags.None) {
+  transformNodesIn(root, transformer, flags, 1);
+}
 
-  constructor(kind: TokenKind, string: string, rawString: string, flags: NodeFlags, remaining: string) {
-    this.kind = kind;
-    this.string = string;
-    this.rawString = rawString;
-    this.flags = flags;
-    this.remaining = remaining;
+function transformNodesIn(node: Node, transformer: Transformer, flags: WalkFlags, depth: number) {
+  if (flags & WalkFlags.Tags) {
+    transformList(node, node.tags, transformer, flags, depth);
+  }
+  if (node.kind !== NodeKind.Tag || flags & WalkFlags.TagArguments) {
+    transformList(node, node.children, transformer, flags, depth);
   }
+}
 
-  toString(): string {
-    let val = sanitize(this.rawString);
-    const name = TokenKind[this.kind];
-    if (/^ +$/.test(val)) {
-      val = `"${val}"`;
+function transformList(parent: Node, nodes: Node[], transformer: Transformer, flags: WalkFlags, depth: number) {
+  const result: Node[] = [];
+  let changed = false;
+  for (const node of [...nodes]) {
+    transformNodesIn(node, transformer, flags, depth + 1);
+    const replacement = transformer(node, depth);
+    if (replacement === undefined) {
+      result.push(node);
+    } else {
+      changed = true;
+      result.push(...(Array.isArray(replacement) ? replacement : [replacement]));
     }
-    return `${val} (${name})`;
   }
-}
+  if (!changed) {
+    return;
+  }
 
-export function getToken(string: string): Token | undefined {
-  if (string === "") {
-    return undefined;
+  const kept = new Set(result);
+  for (const node of nodes) {
+    // A node that was moved somewhere else already has its new links.
+    if (!kept.has(node) && node.parent === parent) {
+      node.parent = undefined;
+      node.prev = undefined;
+      node.next = undefined;
+    }
+  }
+  nodes.length = 0;
+  for (const node of result) {
+    nodes.push(node);
   }
+  linkNodes(parent, nodes);
+}
 
-  let kind = TokenKind.Invalid, flags = NodeFlags.None;
-  let len = 0;
-  let skip = 0, chop = 0;
+export interface MakeNodeOptions {
+  kind?: NodeKind; // NodeKind.Main by default.
 
-  // Scan forward, updating len, until the condition is false.
-  // string[len] will be at the first non-matching char.
-  function scan(charMatches: (char: string) => boolean) {
-    for (; len < string.length; len++) {
-      if (!charMatches(string[len])) {
-        break;
-      }
+  // Added to the flags that come from the label, e.g. to give a node braces.
+  flags?: NodeFlags;
+}
+
+/**
+ * Makes a node from a label written as Metadesk source, like `foo`, `12`, `"a b"`, or `+`. The
+ * label kind and string delimiter flags are set the way the parser would set them. An empty
+ * label makes an unlabeled node. Throws if the label is not exactly one label token.
+ */
+export function makeNode(label: string, options: MakeNodeOptions = {}): Node {
+  let str = "";
+  let flags = options.flags ?? NodeFlags.None;
+  if (label !== "") {
+    const token = getToken(label);
+    if (!token || !(token.kind & Label) || token.rawString !== label) {
+      throw new Error(`${JSON.stringify(label)} is not a valid node label`);
     }
+    str = token.string;
+    flags |= token.flags;
   }
+  const node = new Node(options.kind ?? NodeKind.Main, str, label, 0);
+  node.flags = flags;
+  return node;
+}
 
-  switch (string[0]) {
-    // Whitespace parsing
-    case "\n": {
-      kind = TokenKind.Newline;
-      len += 1;
-    } break;
-    case " ": case "\r": case "\t": case "\f": case "\v": {
-      kind = TokenKind.Whitespace;
-      len += 1;
-      scan(c => [" ", "\r", "\t", "\f", "\v"].includes(c));
-    } break;
+/**
+ * Makes a node labeled with a value. Numbers become numeric labels and booleans become
+ * identifiers. A string becomes an identifier if it is one, and a string literal (see
+ * makeString) otherwise, so that strings like "true" and "12" stay strings. Throws for numbers
+ * that have no Metadesk spelling, like NaN.
+ */
+export function makeLabel(value: string | number | bigint | boolean, options: MakeNodeOptions = {}): Node {
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new Error(`${value} cannot be represented in Metadesk`);
+  }
+  if (typeof value === "string" && (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(value) || ["true", "false", "null"].includes(value))) {
+    return makeString(value, options);
+  }
+  return makeNode(String(value), options);
+}
 
-    // Comment parsing
-    case "/": {
-      if (string.length <= 1) {
-        // TODO: goto symbol_lex ???!!!?
-        break;
-      }
+/**
+ * Makes a string literal node whose value, according to nodeToString, is `value`. The delimiter
+ * is the first of `"`, `'`, and `` ` `` that the string doesn't contain, so that quotes rarely
+ * need escapes. Newlines and other control characters are escaped rather than using a triplet
+ * string, whose indentation would be stripped.
+ */
+export function makeString(value: string, options: MakeNodeOptions = {}): Node {
+  const delim = ["\"", "'", "`"].find(d => !value.includes(d)) ?? "\"";
+  const escapes: Record<string, string | undefined> = {
+    "\\": "\\\\", "\n": "\\n", "\r": "\\r", "\t": "\\t", "\0": "\\0", [delim]: `\\${delim}`,
+  };
+  const escaped = value.replace(/[\\\n\r\t\0"'`]/g, c => escapes[c] ?? c);
+  return makeNode(`${delim}${escaped}${delim}`, options);
+}
 
-      if (string[1] === "/") {
-        // Trim off the first "//"
-        skip = 2;
-        len += 2;
-        kind = TokenKind.Comment;
-        scan(c => !["\n", "\r"].includes(c));
-      } else if (string[1] == "*") {
-        // Trim off the first "/*"
-        skip = 2;
-        len += 2;
-        kind = TokenKind.BrokenComment;
-        let commentDepth = 1;
-        for (; len < string.length && commentDepth > 0; len += 1) {
-          if (len + 1 < string.length) {
-            if (string[len] === "*" && string[len+1] === "/") {
-              len += 1;
-              commentDepth -= 1;
-            } else if (string[len] === "/" && string[len+1] === "*") {
-              len += 1;
-              commentDepth += 1;
-            }
-          }
-        }
-        if (commentDepth === 0) {
-          kind = TokenKind.Comment;
-          chop = 2;
-        }
-      }
-    } break;
+/**
+ * Adds `child` to the end of `parent`'s children, first removing it from wherever it was. Returns
+ * the child.
+ */
+export function pushChild(parent: Node, child: Node): Node {
+  detachNode(child);
+  insertIntoList(parent, parent.children, parent.children.length, child);
+  return child;
+}
 
-    // Strings
-    case "\"": case "'": case "`": {
-      kind = TokenKind.BrokenStringLiteral;
+/**
+ * Inserts `child` so that it ends up at `index` in `parent`'s children, first removing it from
+ * wherever it was. Returns the child.
+ */
+export function insertChild(parent: Node, index: number, child: Node): Node {
+  // A child that is moving within the list doesn't count towards its length.
+  const isMove = child.parent === parent && parent.children.includes(child);
+  const maxIndex = parent.children.length - (isMove ? 1 : 0);
+  if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+    throw new Error(`cannot insert a child at index ${index} of a list of ${parent.children.length}`);
+  }
+  detachNode(child);
+  insertIntoList(parent, parent.children, index, child);
+  return child;
+}
 
-      // Determine delimiter setup (which delimiter, is it a triplet)
-      const delim = string[0];
-      const isTriplet = string.length >= 3 && string[1] === delim && string[2] === delim;
+/**
+ * Removes `child` from `parent`'s children and unlinks it. Returns the child.
+ */
+export function removeChild(parent: Node, child: Node): Node {
+  if (child.parent !== parent || !parent.children.includes(child)) {
+    throw new Error(`"${child.string}" is not a child of "${parent.string}"`);
+  }
+  detachNode(child);
+  return child;
+}
 
-      if (isTriplet) {
-        // Lex a triple-delimited string
-        skip = 3;
-        len += 3;
-        let consecutiveDelims = 0;
-        for (; len < string.length; len++) {
-          if (string[len] === delim) {
-            consecutiveDelims += 1;
-            if (consecutiveDelims === 3) {
-              len += 1; // The last quote doesn't get captured without this because the loop increment doesn't run
-              chop = 3;
-              kind = TokenKind.StringLiteral;
-              break;
-            }
-          } else {
-            consecutiveDelims = 0;
-
-            // escaping characters in string literals
-            // (it seems that only the current delimiter can be escaped?)
-            if (string[len] === "\\" && (string[len+1] === delim || string[len+1] === "\\")) {
-              len += 1; // extra bump to skip the char after the backslash
-            }
-          }
-        }
-      } else {
-        // Lex a single-delimited string
-        skip = 1;
-        len += 1;
-        for (; len < string.length; len++) {
-          // Close condition
-          if (string[len] === delim) {
-            chop = 1;
-            len += 1;
-            kind = TokenKind.StringLiteral;
-            break;
-          }
-
-          // Fail condition
-          if (string[len] === "\n") {
-            break;
-          }
-
-          // escaping characters in string literals
-          // (it seems that only the current delimiter can be escaped?)
-          if (string[len] === "\\" && (string[len+1] === delim || string[len+1] === "\\")) {
-            len += 1; // extra bump to skip the char after the backslash
-          }
-        }
-      }
+/**
+ * Adds `tag` to the end of `node`'s tags, first removing it from wherever it was. Returns the tag.
+ */
+export function pushTag(node: Node, tag: Node): Node {
+  if (tag.kind !== NodeKind.Tag) {
+    throw new Error(`"${tag.string}" is not a tag; make it with { kind: NodeKind.Tag }`);
+  }
+  detachNode(tag);
+  insertIntoList(node, node.tags, node.tags.length, tag);
+  return tag;
+}
 
-      flags |= NodeFlags.StringLiteral;
-      switch (delim) {
-        case "'":  flags |= NodeFlags.StringSingleQuote; break;
-        case "\"": flags |= NodeFlags.StringDoubleQuote; break;
-        case "`":  flags |= NodeFlags.StringTick; break;
-      }
-      if (isTriplet) {
-        flags |= NodeFlags.StringTriplet;
-      }
-    } break;
+/**
+ * Puts `replacement` in `node`'s place, in its parent's tags or children, and unlinks `node`.
+ * The replacement is first removed from wherever it was. Returns the replacement.
+ */
+export function replaceNode(node: Node, replacement: Node): Node {
+  if (replacement === node) {
+    return node;
+  }
+  const parent = node.parent;
+  const list = listFromNode(node);
+  if (!parent || !list) {
+    throw new Error(`"${node.string}" has no parent to be replaced in`);
+  }
+  detachNode(replacement);
+  const index = list.indexOf(node);
+  detachNode(node);
+  insertIntoList(parent, list, index, replacement);
+  return replacement;
+}
 
-    // Identifiers, numbers, symbols
-    default: {
-      const identifierMatch = string.match(/^[a-zA-Z_][a-zA-Z0-9_]*/);
-      const numericMatch = string.match(/^-?[0-9]([eE][+-]|[a-zA-Z0-9._])*/);
+/**
+ * Copies a node and everything in it. The copy has no parent or siblings. Comment and trivia
+ * tokens are shared with the original.
+ */
+export function deepCopy(node: Node): Node {
+  const copies = new Map<Node, Node>();
+  const copy = (n: Node): Node => {
+    const out = new Node(n.kind, n.string, n.rawString, n.offset);
+    out.flags = n.flags;
+    out.prevComment = n.prevComment;
+    out.nextComment = n.nextComment;
+    out.comments = [...n.comments];
+    out.postComments = [...n.postComments];
+    out.endComments = [...n.endComments];
+    out.loc = { ...n.loc };
+    out.endLoc = { ...n.endLoc };
+    out.tags = n.tags.map(copy);
+    out.children = n.children.map(copy);
+    linkNodes(out, out.tags);
+    linkNodes(out, out.children);
+    out.leadingTrivia = [...n.leadingTrivia];
+    out.trailingTrivia = [...n.trailingTrivia];
+    out.syntax = n.syntax.map(item => item instanceof Node ? copies.get(item) ?? item : item);
+    if (emptySyntaxNodes.has(n)) {
+      emptySyntaxNodes.add(out);
+    }
+    copies.set(n, out);
+    return out;
+  };
+  return copy(node);
+}
 
-      if (identifierMatch) {
-        flags |= NodeFlags.Identifier;
-        kind = TokenKind.Identifier;
-        len += identifierMatch[0].length;
-      } else if (numericMatch) {
-        flags |= NodeFlags.Numeric;
-        kind = TokenKind.Numeric;
-        len += numericMatch[0].length;
-      } else if (charIsUnreservedSymbol(string[0])) {
-        flags |= NodeFlags.Symbol;
-        kind = TokenKind.Symbol;
-        len += 1;
-        scan(c => charIsUnreservedSymbol(c));
-      } else if (charIsReservedSymbol(string[0])) {
-        kind = TokenKind.Reserved;
-        len += 1;
-      } else {
-        kind = TokenKind.BadCharacter;
-        len += 1;
-      }
-    } break;
+// The list in its parent that a node is in, if it has a parent.
+function listFromNode(node: Node): Node[] | undefined {
+  if (!node.parent) {
+    return undefined;
   }
+  return node.kind === NodeKind.Tag && node.parent.tags.includes(node) ? node.parent.tags : node.parent.children;
+}
 
-  return new Token(kind, string.slice(skip, len-chop), string.slice(0, len), flags, string.slice(len));
+// Removes a node from its parent's list, if it has a parent, and clears its links.
+function detachNode(node: Node) {
+  const list = listFromNode(node);
+  const index = list?.indexOf(node) ?? -1;
+  if (list && index >= 0) {
+    list.splice(index, 1);
+    if (node.prev) {
+      node.prev.next = node.next;
+    }
+    if (node.next) {
+      node.next.prev = node.prev;
+    }
+  }
+  node.parent = undefined;
+  node.prev = undefined;
+  node.next = undefined;
 }
 
-export function tokenize(src: string): Token[] {
-  const tokens: Token[] = [];
-	while (true) {
-		const token = getToken(src);
-		if (!token) {
-			break;
-		}
-		tokens.push(token);
-		src = token.remaining;
-	}
-  return tokens;
+function insertIntoList(parent: Node, list: Node[], index: number, node: Node) {
+  list.splice(index, 0, node);
+  const prev = index > 0 ? list[index - 1] : undefined;
+  const next = index + 1 < list.length ? list[index + 1] : undefined;
+  node.parent = parent;
+  node.prev = prev;
+  node.next = next;
+  if (prev) {
+    prev.next = node;
+  }
+  if (next) {
+    next.prev = node;
+  }
 }
 
-function getLastComment(tokens: Token[]): Token | undefined {
-  let comment: Token | undefined = undefined;
-  for (const token of tokens) {
-    if (token.kind === TokenKind.Comment) {
-      comment = token;
+// Selectors find nodes by path, like `io/Joystick/*[@constructor]` or `**/@doc`. Grammar:
+//
+//     selector  = step { "/" step }
+//     step      = "**" | ["@"] name { "[" condition "]" }
+//     name      = "*" | label
+//     condition = "@" label ["(" [arg { "," arg }] ")"] | ":" label-kind | "!" condition
+//     arg       = "*" | label
+//
+// Each step goes from a set of nodes to another, starting from the root the selector is run
+// on. A name step selects the children with that label, and an "@" step selects the tags with
+// that label (or all children or tags, for "*"). "**" selects the nodes themselves and all of
+// their descendants, not counting tags. Conditions filter a step's nodes:
+//
+// - `@name` keeps nodes with that tag. With an argument list, the tag's arguments must match
+//   it exactly, where "*" matches any argument.
+// - `:kind` keeps nodes with that label kind: identifier, numeric, string, or symbol.
+// - `!condition` keeps nodes that don't meet the condition.
+//
+// Labels are identifiers, numbers, or string literals. A string literal matches any node with
+// that string, so `"+"` finds symbols too. Whitespace between tokens is ignored.
+
+type SelectorStep =
+  | { kind: "descendants" }
+  | { kind: "children" | "tags"; name: string | undefined; conditions: SelectorCondition[] };
+
+type SelectorCondition =
+  | { kind: "tag"; name: string; args: (string | undefined)[] | undefined }
+  | { kind: "label-kind"; flags: NodeFlags }
+  | { kind: "not"; condition: SelectorCondition };
+
+/**
+ * A compiled selector, for running the same selector many times. Throws if the selector has a
+ * syntax error.
+ */
+export class Selector {
+  readonly source: string;
+  private steps: SelectorStep[];
+
+  constructor(source: string) {
+    this.source = source;
+    this.steps = new SelectorParser(source).parseSelector();
+  }
+
+  /**
+   * Returns the nodes under `root` that the selector selects, in source order. Labels are
+   * matched using the flags, e.g. MatchFlags.CaseInsensitive.
+   */
+  select(root: Node, flags: MatchFlags = MatchFlags.None): Node[] {
+    let nodes = new Set([root]);
+    for (const step of this.steps) {
+      const next = new Set<Node>();
+      for (const node of nodes) {
+        if (step.kind === "descendants") {
+          // A node that is already in the set brought its descendants with it.
+          walk(node, {
+            enter: n => {
+              if (next.has(n)) {
+                return WalkAction.Skip;
+              }
+              next.add(n);
+              return WalkAction.Continue;
+            },
+          }, WalkFlags.TagArguments);
+          continue;
+        }
+        for (const n of step.kind === "tags" ? node.tags : node.children) {
+          if ((step.name === undefined || labelMatches(n, step.name, flags)) && step.conditions.every(c => conditionMatches(c, n, flags))) {
+            next.add(n);
+          }
+        }
+      }
+      nodes = next;
     }
+    return [...preorder(root, WalkFlags.Tags | WalkFlags.TagArguments)].filter(node => nodes.has(node));
   }
-  return comment;
 }
 
-function charIsUnreservedSymbol(c: string): boolean {
-  return "~!$%^&*-=+<.>/?|".includes(c);
+function conditionMatches(condition: SelectorCondition, node: Node, flags: MatchFlags): boolean {
+  switch (condition.kind) {
+    case "tag": {
+      const args = condition.args;
+      return node.tags.some(tag => labelMatches(tag, condition.name, flags) && (
+        args === undefined || (
+          tag.children.length === args.length
+          && tag.children.every((arg, i) => {
+            const want = args[i];
+            return want === undefined || labelMatches(arg, want, flags);
+          })
+        )
+      ));
+    }
+    case "label-kind": return (node.flags & condition.flags) !== 0;
+    case "not": return !conditionMatches(condition.condition, node, flags);
+  }
 }
 
-function charIsReservedSymbol(c: string): boolean {
-  return "{}()\\[]#,;:@".includes(c);
+/**
+ * Returns the nodes under `root` that a selector selects, in source order. See Selector for
+ * compiling a selector once and running it many times.
+ */
+export function query(root: Node, selector: string | Selector, flags: MatchFlags = MatchFlags.None): Node[] {
+  return (typeof selector === "string" ? new Selector(selector) : selector).select(root, flags);
 }
 
-export class ParseError {
-  message: string;
-  offset: number;
-
-  constructor(message: string, offset: number) {
-    this.message = message;
-    this.offset = offset;
-  }
+/**
+ * Returns the first node under `root` that a selector selects, in source order.
+ */
+export function queryOne(root: Node, selector: string | Selector, flags: MatchFlags = MatchFlags.None): Node | undefined {
+  const nodes = query(root, selector, flags);
+  return nodes.length > 0 ? nodes[0] : undefined;
+}
 
-  toString(): string {
-    return `(offset ${this.offset}) ${this.message}`;
+function labelKindFromString(name: string): NodeFlags | undefined {
+  switch (name) {
+    case "identifier": return NodeFlags.Identifier;
+    case "numeric": return NodeFlags.Numeric;
+    case "string": return NodeFlags.StringLiteral;
+    case "symbol": return NodeFlags.Symbol;
   }
+  return undefined;
 }
 
-class ParseContext {
+class SelectorParser {
   source: string;
-  remaining: string;
-  last: Token | undefined;
-  errors: ParseError[];
+  offset: number;
 
   constructor(source: string) {
     this.source = source;
-    this.remaining = source;
-    this.errors = [];
+    this.offset = 0;
   }
 
-  check(
-    kind: TokenKind = AllTokens,
-    cond: (token: Token) => boolean = () => true,
-  ): Token | undefined {
-    const token = getToken(this.remaining);
-    if (token && (token.kind & kind) && cond(token)) {
-      return token;
-    } else {
-      return undefined;
+  parseSelector(): SelectorStep[] {
+    const steps = [this.parseStep()];
+    while (this.consume("/")) {
+      steps.push(this.parseStep());
     }
+    this.skipWhitespace();
+    if (this.offset < this.source.length) {
+      this.error(`expected "/" or the end of the selector, but got "${this.source[this.offset]}"`);
+    }
+    return steps;
   }
 
-  consume(
-    kind: TokenKind = AllTokens,
-    cond: (token: Token) => boolean = () => true,
-  ): Token | undefined {
-    const token = this.check(kind, cond);
-    if (token) {
-      this.remaining = token.remaining;
-      this.last = token;
+  parseStep(): SelectorStep {
+    if (this.consume("**")) {
+      return { kind: "descendants" };
     }
-    return token;
+    const kind = this.consume("@") ? "tags" : "children";
+    const name = this.consume("*") ? undefined : this.parseLabel();
+    const conditions: SelectorCondition[] = [];
+    while (this.consume("[")) {
+      conditions.push(this.parseCondition());
+      this.expect("]");
+    }
+    return { kind, name, conditions };
   }
 
-  consumeAll(
-    kind: TokenKind = AllTokens,
-    cond: (token: Token) => boolean = () => true,
-  ): Token[] {
-    const tokens: Token[] = [];
-    for (const _ of forever()) {
-      const token = this.consume(kind, cond);
-      if (!token) {
-        break;
+  parseCondition(): SelectorCondition {
+    if (this.consume("!")) {
+      return { kind: "not", condition: this.parseCondition() };
+    }
+    if (this.consume(":")) {
+      const start = this.offset;
+      const labelKind = this.parseLabel();
+      const flags = labelKindFromString(labelKind);
+      if (flags === undefined) {
+        this.offset = start;
+        this.error(`unknown label kind "${labelKind}"; expected identifier, numeric, string, or symbol`);
       }
-      tokens.push(token);
+      return { kind: "label-kind", flags };
     }
-    return tokens;
-  }
-
-  done(): boolean {
-    return !this.check();
+    this.expect("@");
+    const name = this.parseLabel();
+    if (!this.consume("(")) {
+      return { kind: "tag", name, args: undefined };
+    }
+    const args: (string | undefined)[] = [];
+    if (!this.consume(")")) {
+      do {
+        args.push(this.consume("*") ? undefined : this.parseLabel());
+      } while (this.consume(","));
+      this.expect(")");
+    }
+    return { kind: "tag", name, args };
   }
 
-  error(msg: string, offset: number = this.offset) {
-    this.debug(`ERROR! ${msg}`);
-    this.errors.push(new ParseError(msg, offset));
+  parseLabel(): string {
+    this.skipWhitespace();
+    const token = lexToken(this.source, this.offset, {});
+    if (!token || !(token.kind & (TokenKind.Identifier | TokenKind.Numeric | TokenKind.StringLiteral))) {
+      this.error("expected a name");
+    }
+    this.offset += token.rawString.length;
+    return token.string;
   }
 
-  debug(msg: string) {
-    if (!DEBUG) return;
-    console.log({
-      msg,
-      remaining: this.remaining.slice(0, Math.min(30, this.remaining.length)),
-    });
+  consume(str: string): boolean {
+    this.skipWhitespace();
+    // "*" must not eat the start of "**".
+    if (!this.source.startsWith(str, this.offset) || (str === "*" && this.source.startsWith("**", this.offset))) {
+      return false;
+    }
+    this.offset += str.length;
+    return true;
   }
 
-  get offset(): number {
-    return this.source.length - this.remaining.length;
+  expect(str: string) {
+    if (!this.consume(str)) {
+      this.error(`expected "${str}"`);
+    }
   }
 
-  /**
-   * Consumes line whitespace and returns the last comment, if any.
-   */
-  consumeWhitespaceLine(): Token | undefined {
-    const tokens = this.consumeAll(WhitespaceLine);
-    return getLastComment(tokens);
+  skipWhitespace() {
+    while (this.offset < this.source.length && " \t\r\n".includes(this.source[this.offset])) {
+      this.offset += 1;
+    }
   }
 
-  /**
-   * Consumes all whitespace and returns the last comment, if any.
-   */
-  consumeWhitespaceAll(): Token | undefined {
-    const tokens = this.consumeAll(WhitespaceAll);
-    return getLastComment(tokens);
+  error(message: string): never {
+    throw new Error(`bad selector ${JSON.stringify(this.source)} at offset ${this.offset}: ${message}`);
   }
+}
 
-  /**
-   * Grammar:
-   * 
-   *     whitespace-node = whitespace-line [NEWLINE] [whitespace-line]
-   * 
-   * Returns any comment nodes that were encountered.
-   */
-  consumeWhitespaceNode(): Token | undefined {
-    const tokens: Token[] = [];
-    tokens.push(...this.consumeAll(WhitespaceLine));
-    this.consume(TokenKind.Newline);
-    tokens.push(...this.consumeAll(WhitespaceLine));
-    return getLastComment(tokens);
-  }
+export interface CodeLoc {
+  filename: string;
+  offset: number;
 
-  /**
-   * Grammar:
-   * 
-   *     node           = [tag-list [whitespace-all]] (named-node / anonymous-node)
-   *     named-node     = label [":" [whitespace-node] (explicit-list / implicit-list)]
-   *     anonymous-node = explicit-list
-   * 
-   * This function parses an entire `node`.
-   */
-  parseNode(preComment: Token | undefined): Node | undefined {
-    this.debug("parseNode");
+  // Lines and columns start at 1. Columns are counted in UTF-16 code units, like JS string
+  // indices. A line of 0 means that the location is unknown.
+  line: number;
+  column: number;
+}
 
-    const startOffset = this.offset;
-    const node = new Node(NodeKind.Main, "", "", this.offset);
+function unknownCodeLoc(offset: number): CodeLoc {
+  return { filename: "", offset, line: 0, column: 0 };
+}
 
-    node.tags = this.parseTagList(preComment);
-    this.debug(`got ${node.tags.length} tags`);
+/**
+ * Formats a location as "filename:line:column", the format most editors and terminals know how
+ * to jump to. The filename is left off if there is none.
+ */
+export function stringFromCodeLoc(loc: CodeLoc): string {
+  const lineCol = `${loc.line}:${loc.column}`;
+  return loc.filename ? `${loc.filename}:${lineCol}` : lineCol;
+}
 
-    const commentToken = this.consumeWhitespaceAll() ?? preComment;
-    node.comment = commentToken?.string ?? "";
+/**
+ * The offsets at which each line of a source string begins, for converting offsets to lines and
+ * columns.
+ */
+class LineTable {
+  source: string;
+  lineStarts: number[];
 
-    const anonymous = this.check(TokenKind.Reserved, t => "([{".includes(t.string));
-    if (anonymous) {
-      this.debug("node is anonymous");
-      const [children, flags] = this.parseExplicitList();
-      node.children = children ?? [];
-      node.flags |= flags;
-    } else {
-      const label = this.consume(Label);
-      if (label) {
-        node.string = label.string;
-        node.flags |= label.flags;
-        this.debug(`node is named: ${node.string}`);
-                
-        const colon = this.consume(TokenKind.Reserved, t => t.string === ":");
-        if (colon) {
-          // Node has children
-          const comment = this.consumeWhitespaceNode();
+  constructor(source: string) {
+    this.source = source;
+    this.lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === "\n") {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
 
-          const opener = this.check(TokenKind.Reserved, t => "([{".includes(t.string));
-          if (opener) {
-            const [children, flags] = this.parseExplicitList();
-            node.children = children ?? [];
-            node.flags |= flags;
-          } else {
-            node.children = this.parseImplicitList(comment);
-          }
-        }
+  codeLocFromOffset(offset: number, filename: string): CodeLoc {
+    // Binary search for the last line starting at or before the offset.
+    let lo = 0, hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        lo = mid;
       } else {
-        this.error(`expected a valid node label, but got "${sanitize(this.check()?.string ?? "end of file")}" instead`);
-        return undefined;
+        hi = mid - 1;
       }
     }
+    return {
+      filename,
+      offset,
+      line: lo + 1,
+      column: offset - this.lineStarts[lo] + 1,
+    };
+  }
+}
 
-    const endOffset = this.offset;
-    node.rawString = this.source.slice(startOffset, endOffset);
+// Building a line table requires a scan of the whole source, so we keep the most recent one
+// around. Callers typically look up many locations in the same source at once.
+let cachedLineTable: LineTable | undefined;
 
-    return node;
+function lineTableFromSource(source: string): LineTable {
+  if (cachedLineTable?.source !== source) {
+    cachedLineTable = new LineTable(source);
   }
+  return cachedLineTable;
+}
 
-  /**
-   * Grammar:
-   * 
-   *     tag-list = "@" label [explicit-list] [whitespace-all] [tag-list]
-   * 
-   * After parsing, this function verifies that the list of children used parentheses (the only
-   * valid delimiter for tag children).
-   */
-  parseTagList(preComment: Token | undefined): Node[] {
-    this.debug("parseTagList");
+export function codeLocFromOffset(source: string, offset: number, filename = ""): CodeLoc {
+  return lineTableFromSource(source).codeLocFromOffset(offset, filename);
+}
 
-    const result: Node[] = [];
+/**
+ * Computes the location of a node from the source of the File node containing it. Nodes outside
+ * of any File node just return their stored location.
+ */
+export function codeLocFromNode(node: Node): CodeLoc {
+  const file = node.kind === NodeKind.File ? node : [...node.ancestors()].find(n => n.kind === NodeKind.File);
+  if (!file) {
+    return node.loc;
+  }
+  return codeLocFromOffset(file.rawString, node.offset, file.string);
+}
 
-    let commentToken = preComment;
-    for (const _ of forever()) {
-      const at = this.consume(TokenKind.Reserved, t => t.string === "@");
-      if (!at) {
-        break;
-      }
+// TODO: This sucks and isn't universally useful. Error messages should actually show the source
+// as it appears. Other things should not. I dunno.
+function sanitize(str: string): string {
+  str = str.replace(/\n/g, "\\n");
+  str = str.replace(/\t/g, "\\t");
+  return str;
+}
 
-      const label = this.consume(Label);
-      if (!label) {
-        this.error(`"${sanitize(this.last?.rawString ?? "<undefined>")}" is not a proper tag label`);
-        break;
-      }
+export class ParseResult {
+  node: Node;
+  #contexts: ParseContext[];
 
-      this.debug(`tag is named: ${label.string}`);
-            
-      const tagNode = new Node(NodeKind.Tag, label.string, label.rawString, this.offset);
-      const tagChildrenOffset = this.offset;
-      const [tagChildren, tagFlags] = this.parseExplicitList();
-      tagNode.flags |= tagFlags;
-      tagNode.comment = commentToken?.string ?? "";
-            
-      const childrenAreParenthesized = tagNode.flags&NodeFlags.HasParenLeft && tagNode.flags&NodeFlags.HasParenRight;
-      if (tagChildren !== undefined && !childrenAreParenthesized) {
-        this.error("tag children can only be delimited using parentheses", tagChildrenOffset);
-      }
-      tagNode.children = tagChildren ?? [];
+  // There is one context per parsed file.
+  constructor(node: Node, contexts: ParseContext[]) {
+    this.node = node;
+    this.#contexts = contexts;
+  }
 
-      result.push(tagNode);
+  /**
+   * All diagnostics, of every severity.
+   */
+  get errors(): ParseError[] {
+    return ([] as ParseError[]).concat(...this.#contexts.map(ctx => ctx.errors));
+  }
+
+  /**
+   * True if any diagnostic has `Severity.Error`. Warnings and notes do not count.
+   */
+  get hasErrors(): boolean {
+    return this.errors.some(err => err.severity === Severity.Error);
+  }
 
-      commentToken = this.consumeWhitespaceAll();
+  /**
+   * Adds a diagnostic, e.g. from `errorFromNode`, to the file it refers to.
+   */
+  report(err: ParseError) {
+    const ctx = this.#contexts.find(ctx => ctx.filename === err.loc.filename) ?? this.#contexts[0];
+    ctx.errors.push(err);
+  }
+
+  /**
+   * Applies an edit to the source of a single-file result and parses it again. Only the
+   * top-level nodes that the edit touches, plus the whitespace and comments around them, are
+   * reparsed; the other top-level nodes are reused with their offsets and locations updated.
+   * The nodes are reused in place, so the previous result should not be used afterwards.
+   *
+   * Lossless results are parsed again from scratch, since their trivia is spread across the
+   * whole tree, and so are results with the maxNodes or maxSourceSize options, since those
+   * limits apply to the whole file.
+   */
+  reparse(edit: SourceEdit): ParseResult {
+    if (this.node.kind !== NodeKind.File || this.#contexts.length !== 1) {
+      throw new Error("only the results of parse and parseFile can be reparsed");
     }
+    const previous = this.#contexts[0];
+    const end = edit.offset + edit.deleteLength;
+    const source = previous.source.slice(0, edit.offset) + edit.insertText + previous.source.slice(end);
+    const { lossless, maxNodes, maxSourceSize } = previous.options;
+    if (lossless || maxNodes !== undefined || maxSourceSize !== undefined) {
+      return parseFile(previous.filename, source, previous.options);
+    }
+    const ctx = new ParseContext(source, previous.filename, previous.options);
+    return new ParseResult(ctx.reparseFile(this.node, previous.errors, edit), [ctx]);
+  }
 
+  fancyErrors() {
+    const result: string[] = [];
+    for (const ctx of this.#contexts) {
+      for (const err of ctx.errors) {
+        const amt = 20;
+        const before = sanitize(ctx.source.slice(Math.max(0, err.offset - amt), err.offset));
+        const problem = sanitize(ctx.source.slice(err.offset, err.offset + 1));
+        const after = sanitize(ctx.source.slice(err.offset + 1, err.offset + amt));
+        const pad = " ".repeat(before.length);
+        const severity = Severity[err.severity].toUpperCase();
+        const code = err.code ? ` [${err.code}]` : "";
+        result.push(`${stringFromCodeLoc(err.loc)}: ${severity}: ${err.message}${code}
+ |
+ | ${before}${problem}${after}
+ | ${pad}^
+ |
+`);
+      }
+    }
     return result;
   }
+}
+
+export interface ParseOptions {
+  // Keep every token in the tree, as trivia and syntax on each node, so that the source can be
+  // reproduced exactly with printLossless. Off by default, since it costs memory.
+  lossless?: boolean;
+
+  // Limits for untrusted or generated input. Going over one is reported as an error, and parsing
+  // stops there, keeping the top-level nodes that were finished.
+  //
+  // The deepest that nodes may be nested, counting tag arguments. Defaults to 500, well short of
+  // where the parser would run out of stack.
+  maxDepth?: number;
+  // The most nodes a file may have, including tags. Unlimited by default.
+  maxNodes?: number;
+  // The longest source that will be parsed, in UTF-16 code units like offsets. Unlimited by
+  // default.
+  maxSourceSize?: number;
+
+  // Dialect switches. The defaults are standard Metadesk.
+  //
+  // Allow "#" anywhere in identifiers, e.g. `C#` or `#define`. Normally "#" is reserved.
+  hashInLabels?: boolean;
+  // Lex "\r\n" as a single newline token, instead of whitespace followed by a newline.
+  crlfNewlines?: boolean;
+  // How list delimiters may be mixed. "lenient", the default, lets parentheses and brackets be
+  // mixed, as in the half-open range `[0, 10)`. "strict" requires every list to be closed with
+  // the delimiter it was opened with. Braces must always match.
+  delimiters?: "lenient" | "strict";
+
+  // Called for every step the parser takes, e.g. to build a parser debugger. See TraceEvent.
+  trace?: (event: TraceEvent) => void;
+}
+
+/**
+ * The grammar rules that the parser reports entering and exiting. See the grammar at the top of
+ * this file.
+ */
+export type ParseRule = "file" | "node" | "tag-list" | "explicit-list" | "implicit-list";
+
+/**
+ * A step taken by the parser, passed to ParseOptions.trace. Rules are entered and exited in
+ * nested pairs, except that the exits are skipped when a limit aborts parsing. Every token is
+ * reported as it is consumed, including whitespace and comments, and every diagnostic as it is
+ * reported.
+ */
+export type TraceEvent =
+  | { kind: "enter"; rule: ParseRule; offset: number }
+  | { kind: "exit"; rule: ParseRule; offset: number }
+  | { kind: "consume"; token: Token }
+  | { kind: "error"; error: ParseError };
+
+const defaultMaxDepth = 500;
+
+/**
+ * A change to a source string, for `ParseResult.reparse`. `offset` and `deleteLength` refer to
+ * the source before the edit.
+ */
+export interface SourceEdit {
+  offset: number;
+  deleteLength: number;
+  insertText: string;
+}
+
+export function parse(source: string, options: ParseOptions = {}): ParseResult {
+  return parseFile("", source, options);
+}
+
+/**
+ * Parses a single file. The resulting File node's string is the filename, and all locations
+ * refer to that file.
+ */
+export function parseFile(filename: string, source: string, options: ParseOptions = {}): ParseResult {
+  const ctx = new ParseContext(source, filename, options);
+  return new ParseResult(ctx.parseFile(), [ctx]);
+}
+
+export interface ProjectFile {
+  // The canonical name of the file. Files are only parsed once per project, and include cycles
+  // are detected, by comparing these names.
+  filename: string;
+  source: string;
+}
+
+/**
+ * Loads the file named by an include. `includer` is the filename of the file containing the
+ * include, or undefined for the entry file. Returns undefined if the file cannot be loaded.
+ */
+export type ProjectLoader = (path: string, includer: string | undefined) => ProjectFile | undefined;
+
+export interface ProjectOptions extends ParseOptions {
+  // The name of the tag that marks an include. Defaults to "include".
+  includeTag?: string;
+}
+
+/**
+ * Parses a file and everything it includes. An include is a top-level node with a tag like
+ * `@include("other.mdesk")`; the tag's argument is passed to the loader.
+ *
+ * The result is a Project node with one File node per loaded file, in the order the files were
+ * first reached. Each file appears once no matter how many times it is included. Problems with
+ * includes are reported as errors in the including file.
+ */
+export function parseProject(entry: string, loader: ProjectLoader, options: ProjectOptions = {}): ParseResult {
+  const includeTag = options.includeTag ?? "include";
+
+  const root = new Node(NodeKind.Project, "", "", 0);
+  const contexts: ParseContext[] = [];
+  const loaded = new Set<string>();
+
+  // `include` is the context and tag of the include being followed, if any.
+  function load(path: string, include: [ParseContext, Node] | undefined, stack: string[]) {
+    const file = loader(path, include?.[0].filename);
+    if (!file) {
+      if (include) {
+        const [includer, tag] = include;
+        includer.error(`could not load included file "${path}"`, "include-not-found", tag.offset);
+      } else {
+        // There is nowhere to report a missing entry file except on an empty file of its own.
+        const ctx = new ParseContext("", path, options);
+        ctx.error(`could not load "${path}"`, "include-not-found", 0);
+        contexts.push(ctx);
+        root.children.push(ctx.parseFile());
+      }
+      return;
+    }
+
+    if (include && stack.includes(file.filename)) {
+      const [includer, tag] = include;
+      const cycle = [...stack.slice(stack.indexOf(file.filename)), file.filename];
+      includer.error(`include cycle: ${cycle.join(" -> ")}`, "include-cycle", tag.offset);
+      return;
+    }
+    if (loaded.has(file.filename)) {
+      return;
+    }
+    loaded.add(file.filename);
+
+    const ctx = new ParseContext(file.source, file.filename, options);
+    const fileNode = ctx.parseFile();
+    contexts.push(ctx);
+    root.children.push(fileNode);
+
+    for (const node of fileNode.children) {
+      const tag = node.tagFromString(includeTag);
+      if (!tag) {
+        continue;
+      }
+      const arg = tag.childFromIndex(0);
+      if (!arg || tag.children.length > 1 || !(arg.flags & NodeFlags.StringLiteral)) {
+        ctx.error(`@${includeTag} expects a single file name string`, "bad-include", tag.offset);
+        continue;
+      }
+      load(arg.string, [ctx, tag], [...stack, file.filename]);
+    }
+  }
+
+  load(entry, undefined, []);
+  linkNodes(root, root.children);
+
+  return new ParseResult(root, contexts);
+}
+
+/**
+ * Parses a file that arrives in chunks, without keeping the whole source in memory. Push chunks
+ * as they arrive; each call returns the top-level nodes that are known to be complete. A
+ * top-level node is complete once the next one has started, since until then more input could
+ * extend it, e.g. by continuing an implicit list or adding a comment after it. Call `end` after
+ * the last chunk to get the rest.
+ *
+ * The nodes have the offsets and locations they would have in the whole file, but they are not
+ * linked to a File node or to each other, so that each one can be dropped once it is handled.
+ * The lossless option is not supported.
+ */
+export class StreamParser {
+  filename: string;
+  options: ParseOptions;
+
+  // Diagnostics for the input up to the last node returned. They are only added once final, so
+  // they can be read and cleared between pushes.
+  errors: ParseError[];
+
+  // The input after the last node returned, where it starts in the whole file, and how the
+  // first node in it starts.
+  #buffer: string;
+  #base: CodeLoc;
+  #resume: ResumePoint | undefined;
+
+  // Parsing is retried each time the buffer doubles in size, so that a large node that spans
+  // many chunks doesn't get parsed again for every chunk.
+  #nextAttempt: number;
+
+  #size: number;
+  #nodeCount: number;
+  #stopped: boolean;
+
+  constructor(filename = "", options: ParseOptions = {}) {
+    this.filename = filename;
+    this.options = { ...options, lossless: false };
+    this.errors = [];
+    this.#buffer = "";
+    this.#base = { filename, offset: 0, line: 1, column: 1 };
+    this.#resume = undefined;
+    this.#nextAttempt = 0;
+    this.#size = 0;
+    this.#nodeCount = 0;
+    this.#stopped = false;
+  }
+
+  push(chunk: string): Node[] {
+    if (this.#stopped) {
+      return [];
+    }
+    const maxSourceSize = this.options.maxSourceSize ?? Infinity;
+    if (this.#size + chunk.length > maxSourceSize) {
+      // Parse up to the limit, and report the error there.
+      const source = this.#buffer + chunk.slice(0, maxSourceSize - this.#size);
+      const loc = relocateCodeLoc(codeLocFromOffset(source, source.length, this.filename), this.#base);
+      const nodes = this.#parse(source, true);
+      this.errors.push(new ParseError(`the source is more than ${maxSourceSize} characters long`, loc.offset, loc, "source-too-large"));
+      return nodes;
+    }
+    this.#size += chunk.length;
+    this.#buffer += chunk;
+    if (this.#buffer.length < this.#nextAttempt) {
+      return [];
+    }
+    return this.#parse(this.#buffer, false);
+  }
+
+  end(): Node[] {
+    if (this.#stopped) {
+      return [];
+    }
+    this.#stopped = true;
+    return this.#parse(this.#buffer, true);
+  }
 
   /**
-   * Grammar:
-   * 
-   *     explicit-list = ("(" / "[" / "{") explicit-children (")" / "]" / "}")
-   * 
-   * Note that, while the grammar allows for any combination of opening and closing delimiters,
-   * some combinations are forbidden and will be validated separately.
+   * Parses the buffered input, returning the complete nodes and dropping their source from the
+   * buffer. At the end of the input, every node is complete.
    */
-  parseExplicitList(): [Node[] | undefined, NodeFlags] {
-    this.debug("parseExplicitList");
+  #parse(source: string, atEnd: boolean): Node[] {
+    // The last token could be cut off, e.g. a "/" that turns out to start a comment, so only
+    // parse up to whitespace. Only strings and comments can cross whitespace, and if one is cut
+    // off there, it belongs to the last node, which is parsed again next time anyway.
+    let end = source.length;
+    while (!atEnd && end > 0 && !" \t\r\n\f\v".includes(source[end - 1])) {
+      end--;
+    }
+    const ctx = new ParseContext(source.slice(0, end), this.filename, this.options);
+    ctx.nodeCount = this.#nodeCount;
+    const children: Node[] = [];
+    ctx.parseTopLevel(children, this.#resume);
 
-    let parentFlags: NodeFlags = 0;
+    const done = atEnd || ctx.aborted;
+    if (!done && children.length < 2) {
+      this.#nextAttempt = 2 * source.length;
+      return [];
+    }
+    const complete = done ? children : children.slice(0, -1);
+    const cut = done ? source.length : children[children.length - 1].offset;
+
+    const base = this.#base;
+    const located = new Set(this.#resume?.comments);
+    for (const node of complete) {
+      relocateNode(node, base, located);
+      this.#nodeCount += countNodes(node);
+    }
+    // The last node's errors are reported again when it is parsed again.
+    const errorCount = done ? ctx.errors.length : ctx.errorCounts.get(children[children.length - 1]) ?? 0;
+    for (const err of ctx.errors.slice(0, errorCount)) {
+      err.offset += base.offset;
+      err.loc = relocateCodeLoc(err.loc, base);
+      this.errors.push(err);
+    }
+
+    if (done) {
+      this.#stopped = true;
+      this.#buffer = "";
+      return complete;
+    }
+
+    // Pick up at the start of the last node next time, like ParseResult.reparse does. Its
+    // comments come before the cut, so they are relocated now.
+    const last = children[children.length - 1];
+    const comments = last.comments.filter(c => c.offset < last.offset || located.has(c));
+    for (const comment of comments) {
+      if (!located.has(comment)) {
+        comment.offset += base.offset;
+        comment.loc = relocateCodeLoc(comment.loc, base);
+        comment.endLoc = relocateCodeLoc(comment.endLoc, base);
+      }
+    }
+    this.#resume = {
+      comments,
+      flags: last.flags & (NodeFlags.IsAfterComma | NodeFlags.IsAfterSemicolon),
+      delta: 0,
+      reusable: new Map(),
+    };
+    this.#base = relocateCodeLoc(ctx.codeLocFromOffset(cut), base);
+    this.#buffer = source.slice(cut);
+    this.#nextAttempt = 2 * this.#buffer.length;
+    return complete;
+  }
+}
+
+/**
+ * Parses a stream of chunks with a StreamParser, yielding each top-level node once it is
+ * complete. The chunks can be strings or UTF-8 bytes, so a Node `Readable` works as is. Pass a
+ * parser to read its errors along the way.
+ */
+export function parseStream(chunks: AsyncIterable<string | Uint8Array>, parser: StreamParser = new StreamParser()): AsyncIterableIterator<Node> {
+  return new NodeStream(chunks[Symbol.asyncIterator](), parser);
+}
+
+// The iterator for parseStream. This is written out by hand rather than as an async generator
+// because esbuild can't compile those for the browser targets.
+class NodeStream implements AsyncIterableIterator<Node> {
+  chunks: AsyncIterator<string | Uint8Array>;
+  parser: StreamParser;
+
+  // Decodes UTF-8 across chunk boundaries. With no bytes, flushes what is left.
+  decode: (bytes?: Uint8Array) => string;
+
+  // Nodes that are parsed but not yet returned, starting at `index`.
+  nodes: Node[];
+  index: number;
+  done: boolean;
+
+  // Calls to `next` wait for the previous call, so that they return nodes in order.
+  last: Promise<unknown>;
+
+  constructor(chunks: AsyncIterator<string | Uint8Array>, parser: StreamParser) {
+    this.chunks = chunks;
+    this.parser = parser;
+    const decoder = new TextDecoder();
+    this.decode = bytes => bytes ? decoder.decode(bytes, { stream: true }) : decoder.decode();
+    this.nodes = [];
+    this.index = 0;
+    this.done = false;
+    this.last = Promise.resolve();
+  }
+
+  next(): Promise<IteratorResult<Node, undefined>> {
+    const result = this.last.then(() => this.nextNode());
+    this.last = result.catch(() => undefined);
+    return result;
+  }
+
+  async return(): Promise<IteratorResult<Node, undefined>> {
+    await this.last;
+    if (!this.done) {
+      this.done = true;
+      this.nodes = [];
+      await this.chunks.return?.();
+    }
+    return { done: true, value: undefined };
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  async nextNode(): Promise<IteratorResult<Node, undefined>> {
+    while (this.index >= this.nodes.length && !this.done) {
+      const chunk = await this.chunks.next();
+      if (chunk.done) {
+        this.done = true;
+        this.nodes = [...this.parser.push(this.decode()), ...this.parser.end()];
+      } else {
+        const text = typeof chunk.value === "string" ? chunk.value : this.decode(chunk.value);
+        this.nodes = this.parser.push(text);
+      }
+      this.index = 0;
+    }
+    if (this.index < this.nodes.length) {
+      this.index += 1;
+      return { done: false, value: this.nodes[this.index - 1] };
+    }
+    return { done: true, value: undefined };
+  }
+}
+
+// Converts a location in a piece of a file to a location in the whole file, given where the
+// piece starts.
+function relocateCodeLoc(loc: CodeLoc, base: CodeLoc): CodeLoc {
+  return {
+    filename: base.filename,
+    offset: loc.offset + base.offset,
+    line: loc.line + base.line - 1,
+    column: loc.line === 1 ? loc.column + base.column - 1 : loc.column,
+  };
+}
+
+// Relocates a node parsed from a piece of a file, and everything in it. Comment tokens can be
+// shared between nodes, so `located` tracks the ones that have already been relocated.
+function relocateNode(node: Node, base: CodeLoc, located: Set<Token>) {
+  node.offset += base.offset;
+  node.loc = relocateCodeLoc(node.loc, base);
+  node.endLoc = relocateCodeLoc(node.endLoc, base);
+  for (const comment of [...node.comments, ...node.endComments]) {
+    if (!located.has(comment)) {
+      located.add(comment);
+      comment.offset += base.offset;
+      comment.loc = relocateCodeLoc(comment.loc, base);
+      comment.endLoc = relocateCodeLoc(comment.endLoc, base);
+    }
+  }
+  for (const n of node.tags) {
+    relocateNode(n, base, located);
+  }
+  for (const n of node.children) {
+    relocateNode(n, base, located);
+  }
+}
+
+// Counts a node and everything in it the way ParseContext.countNode does.
+function countNodes(node: Node): number {
+  let count = 0;
+  walk(node, { enter: () => { count += 1; } }, WalkFlags.Tags | WalkFlags.TagArguments);
+  return count;
+}
+
+export enum NodeFlags {
+  None = 0,
+
+  HasParenLeft    = 1 << 0,
+  HasParenRight   = 1 << 1,
+  HasBracketLeft  = 1 << 2,
+  HasBracketRight = 1 << 3,
+  HasBraceLeft    = 1 << 4,
+  HasBraceRight   = 1 << 5,
+
+  MaskSetDelimiters = 0x3F << 0,
+
+  IsBeforeSemicolon   = 1 << 6,
+  IsAfterSemicolon    = 1 << 7,
+  IsBeforeComma       = 1 << 8,
+  IsAfterComma        = 1 << 9,
+
+  MaskSeparators = 0xF << 6,
+
+  StringSingleQuote   = 1 << 10,
+  StringDoubleQuote   = 1 << 11,
+  StringTick          = 1 << 12,
+  StringTriplet       = 1 << 13,
+    
+  MaskStringDelimiters = 0xF << 10,
+    
+  Numeric         = 1 << 14,
+  Identifier      = 1 << 15,
+  StringLiteral   = 1 << 16,
+  Symbol          = 1 << 17,
+    
+  MaskLabelKind = 0xF << 14,
+
+  All = ~0,
+}
+
+/**
+ * The names of node flags, excluding the special Mask flags.
+ * Use in conjunction with the Mask flags for nice debug output.
+ */
+export const nodeFlagNames = [
+  // MaskSetDelimiters
+  "HasParenLeft",
+  "HasParenRight",
+  "HasBracketLeft",
+  "HasBracketRight",
+  "HasBraceLeft",
+  "HasBraceRight",
+  
+  // MaskSeparators
+  "IsBeforeSemicolon",
+  "IsAfterSemicolon",
+  "IsBeforeComma",
+  "IsAfterComma",
+
+  // MaskStringDelimiters
+  "StringSingleQuote",
+  "StringDoubleQuote",
+  "StringTick",
+  "StringTriplet",
+
+  // MaskLabelKind
+  "Numeric",
+  "Identifier",
+  "StringLiteral",
+  "Symbol",
+] as const;
+
+export enum MatchFlags {
+  None = 0,
+
+  CaseInsensitive = 1 << 0,
+  FindLast        = 1 << 1,
+
+  // If any of these are set, names will only match nodes with one of the given label kinds.
+  LabelNumeric       = 1 << 2,
+  LabelIdentifier    = 1 << 3,
+  LabelStringLiteral = 1 << 4,
+  LabelSymbol        = 1 << 5,
+
+  MaskLabelKind = 0xF << 2,
+
+  // Used by nodeMatch and nodeDeepMatch to compare more than the kind and string of two nodes.
+  Tags         = 1 << 6,
+  TagArguments = 1 << 7,
+  Children     = 1 << 8,
+
+  FlagsSetDelimiters    = 1 << 9,
+  FlagsSeparators       = 1 << 10,
+  FlagsStringDelimiters = 1 << 11,
+  FlagsLabelKind        = 1 << 12,
+
+  MaskNodeFlags = 0xF << 9,
+}
+
+export function stringMatch(a: string, b: string, flags: MatchFlags = MatchFlags.None): boolean {
+  if (flags & MatchFlags.CaseInsensitive) {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return a === b;
+}
+
+/**
+ * Compares two nodes by kind and string. Depending on the flags, this also compares their tags,
+ * tag arguments, children, and subsets of their node flags. Tag arguments and children are
+ * compared recursively using the same flags.
+ */
+export function nodeMatch(a: Node, b: Node, flags: MatchFlags = MatchFlags.None): boolean {
+  if (a.kind !== b.kind || !stringMatch(a.string, b.string, flags)) {
+    return false;
+  }
+
+  const nodeFlagsMask = nodeFlagsMaskFromMatchFlags(flags);
+  if ((a.flags & nodeFlagsMask) !== (b.flags & nodeFlagsMask)) {
+    return false;
+  }
+
+  if (flags & MatchFlags.Tags) {
+    if (a.tags.length !== b.tags.length) {
+      return false;
+    }
+    for (const [i, aTag] of a.tags.entries()) {
+      const bTag = b.tags[i];
+      if (!stringMatch(aTag.string, bTag.string, flags)) {
+        return false;
+      }
+      if (flags & MatchFlags.TagArguments && !nodeListsMatch(aTag.children, bTag.children, flags | MatchFlags.Children)) {
+        return false;
+      }
+    }
+  }
+
+  if (flags & MatchFlags.Children && !nodeListsMatch(a.children, b.children, flags)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Compares two entire trees. Equivalent to `nodeMatch` with `MatchFlags.Children`.
+ */
+export function nodeDeepMatch(a: Node, b: Node, flags: MatchFlags = MatchFlags.None): boolean {
+  return nodeMatch(a, b, flags | MatchFlags.Children);
+}
+
+function nodeListsMatch(a: Node[], b: Node[], flags: MatchFlags): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  return a.every((node, i) => nodeMatch(node, b[i], flags));
+}
+
+function nodeFlagsMaskFromMatchFlags(flags: MatchFlags): NodeFlags {
+  let mask = NodeFlags.None;
+  if (flags & MatchFlags.FlagsSetDelimiters) {
+    mask |= NodeFlags.MaskSetDelimiters;
+  }
+  if (flags & MatchFlags.FlagsSeparators) {
+    mask |= NodeFlags.MaskSeparators;
+  }
+  if (flags & MatchFlags.FlagsStringDelimiters) {
+    mask |= NodeFlags.MaskStringDelimiters;
+  }
+  if (flags & MatchFlags.FlagsLabelKind) {
+    mask |= NodeFlags.MaskLabelKind;
+  }
+  return mask;
+}
+
+function labelMatches(node: Node, name: string, flags: MatchFlags): boolean {
+  if (flags & MatchFlags.MaskLabelKind) {
+    // The label kind match flags are in the same order as the node flags.
+    const kinds = ((flags & MatchFlags.MaskLabelKind) >> 2) << 14;
+    if (!(node.flags & kinds)) {
+      return false;
+    }
+  }
+  return stringMatch(node.string, name, flags);
+}
+
+export class Token {
+  kind: TokenKind;
+  string: string;
+  rawString: string;
+  flags: NodeFlags;
+
+  // getToken has no idea where its input came from, so these are filled in by tokenize and the
+  // parser.
+  offset: number;
+  loc: CodeLoc;
+  endLoc: CodeLoc;
+
+  // The text after the token is `rest.slice(restStart)`. The lexer passes the whole source and
+  // the token's end, so that nothing is copied unless someone asks for `remaining`. (These are
+  // not #private, since that compiles to a WeakMap lookup per token.)
+  private rest: string;
+  private restStart: number;
+
+  constructor(kind: TokenKind, string: string, rawString: string, flags: NodeFlags, remaining: string, remainingStart = 0) {
+    this.kind = kind;
+    this.string = string;
+    this.rawString = rawString;
+    this.flags = flags;
+    this.rest = remaining;
+    this.restStart = remainingStart;
+
+    this.offset = 0;
+    this.loc = unknownCodeLoc(0);
+    this.endLoc = unknownCodeLoc(rawString.length);
+  }
+
+  get remaining(): string {
+    return this.rest.slice(this.restStart);
+  }
+
+  toString(): string {
+    let val = sanitize(this.rawString);
+    const name = TokenKind[this.kind];
+    if (/^ +$/.test(val)) {
+      val = `"${val}"`;
+    }
+    return `${val} (${name})`;
+  }
+}
+
+/**
+ * Lexes the first token of a string. `remaining` on the result is the rest of the string. Only
+ * the dialect switches in the options matter here.
+ */
+export function getToken(string: string, options: ParseOptions = {}): Token | undefined {
+  return lexToken(string, 0, options);
+}
+
+// Sticky, so that they only match at lastIndex instead of searching the rest of the source.
+const identifierRegex = /[a-zA-Z_][a-zA-Z0-9_]*/y;
+const hashIdentifierRegex = /[a-zA-Z_#][a-zA-Z0-9_#]*/y;
+const numericRegex = /-?[0-9]([eE][+-]|[a-zA-Z0-9._])*/y;
+
+function stickyMatchLength(regex: RegExp, source: string, start: number): number {
+  regex.lastIndex = start;
+  return regex.test(source) ? regex.lastIndex - start : 0;
+}
+
+/**
+ * Lexes the token starting at `start` in `source`. The source is never copied; only the token's
+ * own strings are sliced out of it, and the token's offset is `start`.
+ */
+function lexToken(source: string, start: number, options: ParseOptions): Token | undefined {
+  if (start >= source.length) {
+    return undefined;
+  }
+  const crlf = options.crlfNewlines ?? false;
+  const isCRLF = (i: number) => crlf && source[i] === "\r" && source[i+1] === "\n";
+
+  let kind = TokenKind.Invalid, flags = NodeFlags.None;
+  let end = start;
+  let skip = 0, chop = 0;
+
+  // Scan forward, updating end, until the condition is false.
+  // source[end] will be at the first non-matching char.
+  function scan(charMatches: (char: string) => boolean) {
+    for (; end < source.length; end++) {
+      if (!charMatches(source[end])) {
+        break;
+      }
+    }
+  }
+
+  switch (source[start]) {
+    // Whitespace parsing
+    case "\n": {
+      kind = TokenKind.Newline;
+      end += 1;
+    } break;
+    case " ": case "\r": case "\t": case "\f": case "\v": {
+      if (isCRLF(start)) {
+        kind = TokenKind.Newline;
+        end += 2;
+        break;
+      }
+      kind = TokenKind.Whitespace;
+      end += 1;
+      for (; end < source.length && " \r\t\f\v".includes(source[end]) && !isCRLF(end); end++) {
+        // Just scanning
+      }
+    } break;
+
+    // Comment parsing
+    case "/": {
+      if (source[start+1] === "/") {
+        // Trim off the first "//"
+        skip = 2;
+        end += 2;
+        kind = TokenKind.Comment;
+        scan(c => c !== "\n" && c !== "\r");
+      } else if (source[start+1] == "*") {
+        // Trim off the first "/*"
+        skip = 2;
+        end += 2;
+        kind = TokenKind.BrokenComment;
+        let commentDepth = 1;
+        for (; end < source.length && commentDepth > 0; end += 1) {
+          if (end + 1 < source.length) {
+            if (source[end] === "*" && source[end+1] === "/") {
+              end += 1;
+              commentDepth -= 1;
+            } else if (source[end] === "/" && source[end+1] === "*") {
+              end += 1;
+              commentDepth += 1;
+            }
+          }
+        }
+        if (commentDepth === 0) {
+          kind = TokenKind.Comment;
+          chop = 2;
+        }
+      } else {
+        // Not a comment, just a symbol that starts with a slash
+        flags |= NodeFlags.Symbol;
+        kind = TokenKind.Symbol;
+        end += 1;
+        scan(c => charIsUnreservedSymbol(c));
+      }
+    } break;
+
+    // Strings
+    case "\"": case "'": case "`": {
+      kind = TokenKind.BrokenStringLiteral;
+
+      // Determine delimiter setup (which delimiter, is it a triplet)
+      const delim = source[start];
+      const isTriplet = start + 3 <= source.length && source[start+1] === delim && source[start+2] === delim;
+
+      if (isTriplet) {
+        // Lex a triple-delimited string
+        skip = 3;
+        end += 3;
+        let consecutiveDelims = 0;
+        for (; end < source.length; end++) {
+          if (source[end] === delim) {
+            consecutiveDelims += 1;
+            if (consecutiveDelims === 3) {
+              end += 1; // The last quote doesn't get captured without this because the loop increment doesn't run
+              chop = 3;
+              kind = TokenKind.StringLiteral;
+              break;
+            }
+          } else {
+            consecutiveDelims = 0;
+
+            // escaping characters in string literals
+            // (it seems that only the current delimiter can be escaped?)
+            if (source[end] === "\\" && (source[end+1] === delim || source[end+1] === "\\")) {
+              end += 1; // extra bump to skip the char after the backslash
+            }
+          }
+        }
+      } else {
+        // Lex a single-delimited string
+        skip = 1;
+        end += 1;
+        for (; end < source.length; end++) {
+          // Close condition
+          if (source[end] === delim) {
+            chop = 1;
+            end += 1;
+            kind = TokenKind.StringLiteral;
+            break;
+          }
+
+          // Fail condition
+          if (source[end] === "\n" || isCRLF(end)) {
+            break;
+          }
+
+          // escaping characters in string literals
+          // (it seems that only the current delimiter can be escaped?)
+          if (source[end] === "\\" && (source[end+1] === delim || source[end+1] === "\\")) {
+            end += 1; // extra bump to skip the char after the backslash
+          }
+        }
+      }
+
+      flags |= NodeFlags.StringLiteral;
+      switch (delim) {
+        case "'":  flags |= NodeFlags.StringSingleQuote; break;
+        case "\"": flags |= NodeFlags.StringDoubleQuote; break;
+        case "`":  flags |= NodeFlags.StringTick; break;
+      }
+      if (isTriplet) {
+        flags |= NodeFlags.StringTriplet;
+      }
+    } break;
+
+    // Identifiers, numbers, symbols
+    default: {
+      const identifierLength = stickyMatchLength(options.hashInLabels ? hashIdentifierRegex : identifierRegex, source, start);
+      const numericLength = identifierLength ? 0 : stickyMatchLength(numericRegex, source, start);
+
+      if (identifierLength) {
+        flags |= NodeFlags.Identifier;
+        kind = TokenKind.Identifier;
+        end += identifierLength;
+      } else if (numericLength) {
+        flags |= NodeFlags.Numeric;
+        kind = TokenKind.Numeric;
+        end += numericLength;
+      } else if (charIsUnreservedSymbol(source[start])) {
+        flags |= NodeFlags.Symbol;
+        kind = TokenKind.Symbol;
+        end += 1;
+        scan(c => charIsUnreservedSymbol(c));
+      } else if (charIsReservedSymbol(source[start])) {
+        kind = TokenKind.Reserved;
+        end += 1;
+      } else {
+        kind = TokenKind.BadCharacter;
+        end += 1;
+        scan(c => charIsBad(c));
+      }
+    } break;
+  }
+
+  const token = new Token(kind, source.slice(start + skip, end - chop), source.slice(start, end), flags, source, end);
+  token.offset = start;
+  return token;
+}
+
+export function tokenize(src: string, filename = "", options: ParseOptions = {}): Token[] {
+  const lines = lineTableFromSource(src);
+  const tokens: Token[] = [];
+  let offset = 0;
+  for (let token = lexToken(src, 0, options); token; token = lexToken(src, offset, options)) {
+    locateToken(token, offset, lines, filename);
+    tokens.push(token);
+    offset += token.rawString.length;
+  }
+  return tokens;
+}
+
+function locateToken(token: Token, offset: number, lines: LineTable, filename: string) {
+  token.offset = offset;
+  token.loc = lines.codeLocFromOffset(offset, filename);
+  token.endLoc = lines.codeLocFromOffset(offset + token.rawString.length, filename);
+}
+
+function getComments(tokens: Token[]): Token[] {
+  return tokens.filter(token => token.kind === TokenKind.Comment);
+}
+
+function stringFromLastComment(comments: Token[]): string {
+  return comments.length > 0 ? comments[comments.length - 1].string : "";
+}
+
+function attachPostComments(node: Node, comments: Token[]) {
+  if (comments.length > 0) {
+    node.comments.push(...comments);
+    node.postComments.push(...comments);
+    node.nextComment = stringFromLastComment(comments);
+  }
+}
+
+function charIsUnreservedSymbol(c: string): boolean {
+  return "~!$%^&*-=+<.>/?|".includes(c);
+}
+
+function charIsReservedSymbol(c: string): boolean {
+  return "{}()\\[]#,;:@".includes(c);
+}
+
+/**
+ * Reserved characters that have no meaning in the language (yet), and therefore can't appear
+ * anywhere outside of strings and comments.
+ */
+function charIsStrayReserved(c: string): boolean {
+  return "#\\".includes(c);
+}
+
+/**
+ * Trivia are the tokens the parser skips over: whitespace, comments, and bad tokens that have
+ * already been reported.
+ */
+function tokenIsTrivia(token: Token): boolean {
+  if (token.kind === TokenKind.Reserved) {
+    return charIsStrayReserved(token.string);
+  }
+  return (token.kind & (WhitespaceAll | BadTokens)) !== 0;
+}
+
+function charIsBad(c: string): boolean {
+  return !(
+    " \r\t\f\v\n\"'`_".includes(c)
+    || /[a-zA-Z0-9]/.test(c)
+    || charIsUnreservedSymbol(c)
+    || charIsReservedSymbol(c)
+  );
+}
+
+/**
+ * Finds the "/*" in a broken comment that was never closed. When several are open, the most
+ * recently opened one is the likeliest culprit.
+ */
+function unmatchedCommentOffset(rawComment: string): number {
+  const openers: number[] = [];
+  for (let i = 0; i + 1 < rawComment.length; i++) {
+    if (rawComment[i] === "/" && rawComment[i+1] === "*") {
+      openers.push(i);
+      i += 1;
+    } else if (rawComment[i] === "*" && rawComment[i+1] === "/") {
+      openers.pop();
+      i += 1;
+    }
+  }
+  return openers[openers.length - 1] ?? 0;
+}
+
+// Severities are ordered, so e.g. `err.severity >= Severity.Warning` works as expected.
+export enum Severity {
+  Note,
+  Warning,
+  Error,
+}
+
+/**
+ * The codes of all the diagnostics produced by this library. Codes are stable and can be used to
+ * filter diagnostics; messages are for humans and may change.
+ */
+export type ParseErrorCode =
+  // Lexer
+  | "broken-string"
+  | "broken-comment"
+  | "bad-character"
+  | "reserved-character"
+
+  // Parser
+  | "expected-label"
+  | "unmatched-closer"
+  | "bad-tag-label"
+  | "bad-tag-delimiter"
+  | "unterminated-list"
+  | "mismatched-delimiters"
+
+  // parseProject
+  | "include-not-found"
+  | "include-cycle"
+  | "bad-include"
+
+  // parseExpr
+  | "expected-operand"
+  | "expected-operator"
+
+  // validate
+  | "bad-label-kind"
+  | "bad-delimiters"
+  | "unknown-tag"
+  | "missing-tag"
+  | "bad-tag-arguments"
+  | "unknown-child"
+  | "missing-child"
+  | "bad-child-count"
+
+  // Value conversion
+  | "bad-number"
+  | "bad-string"
+  | "bad-boolean"
+
+  // fromJSON
+  | "bad-json"
+
+  // ParseOptions limits
+  | "too-deep"
+  | "too-many-nodes"
+  | "source-too-large";
+
+export class ParseError {
+  message: string;
+  offset: number;
+  loc: CodeLoc;
+
+  // Either a ParseErrorCode or a code provided by user code.
+  code: string;
+  severity: Severity;
+
+  constructor(
+    message: string,
+    offset: number,
+    loc: CodeLoc = unknownCodeLoc(offset),
+    code = "",
+    severity: Severity = Severity.Error,
+  ) {
+    this.message = message;
+    this.offset = offset;
+    this.loc = loc;
+    this.code = code;
+    this.severity = severity;
+  }
+
+  toString(): string {
+    const message = this.severity === Severity.Error ? this.message : `${Severity[this.severity].toLowerCase()}: ${this.message}`;
+    if (this.loc.line === 0) {
+      return `(offset ${this.offset}) ${message}`;
+    }
+    return `${stringFromCodeLoc(this.loc)}: ${message}`;
+  }
+}
+
+/**
+ * Creates a diagnostic located at the start of a node, for reporting problems found after
+ * parsing. Use `ParseResult.report` to add it to a parse result.
+ */
+export function errorFromNode(node: Node, message: string, code: string, severity: Severity = Severity.Error): ParseError {
+  return new ParseError(message, node.offset, codeLocFromNode(node), code, severity);
+}
+
+/**
+ * Nodes parsed with the `lossless` option from no tokens at all, like an ErrorMarker where the
+ * parser recovered without skipping anything. Their empty syntax is real, so unlike nodes without
+ * syntax, printLossless prints them as nothing but their trivia.
+ */
+const emptySyntaxNodes = new WeakSet<Node>();
+
+/**
+ * Thrown by ParseContext when parsing goes over a limit, after reporting the error, to stop
+ * parsing from wherever it is.
+ */
+class ParseAborted extends Error {}
+
+/**
+ * Checks that an old node, moved by `delta`, would be parsed with the same comments before it and
+ * the same separator flags if it were parsed again.
+ */
+function canReuseNode(node: Node, comments: Token[], flags: NodeFlags, delta: number): boolean {
+  const oldComments = node.comments.filter(c => c.offset < node.offset);
+  return (node.flags & (NodeFlags.IsAfterComma | NodeFlags.IsAfterSemicolon)) === flags
+    && oldComments.length === comments.length
+    && oldComments.every((c, i) => c.offset + delta === comments[i].offset);
+}
+
+/**
+ * Where reparsing picks up the top level: the comments and separator flags of the first node,
+ * which come from text before the reparsed part, and the old nodes after the edit, by their
+ * shifted offsets. Parsing stops at the first of those that can be reused.
+ */
+interface ResumePoint {
+  comments: Token[];
+  flags: NodeFlags;
+  delta: number;
+  reusable: Map<number, Node>;
+}
+
+class ParseContext {
+  source: string;
+  filename: string;
+  lines: LineTable;
+  offset: number; // The parser's position in the source
+  last: Token | undefined;
+  errors: ParseError[];
+  options: ParseOptions;
+
+  // The token at `lookahead.offset`, so that a check followed by a consume only lexes once.
+  lookahead: Token | undefined;
+
+  // In lossless mode, every consumed token, and the range of tokens each node was parsed from.
+  tokens: Token[];
+  spans: Map<Node, [number, number]>;
+
+  // Comments consumed after a tag list or at the end of an implicit list, for the caller to
+  // assign to a node.
+  danglingComments: Token[];
+
+  // Comments left at the end of the last list parsed by parseExplicitChildren, for the caller to
+  // assign to the node that owns the list.
+  listEndComments: Token[];
+
+  // When reparsing, the old node at which parsing stopped.
+  reuseFrom: Node | undefined;
+
+  // For each top-level node, the number of errors reported before it was parsed, so that
+  // StreamParser can tell the errors of the nodes before it from its own.
+  errorCounts: Map<Node, number>;
+
+  // For the limits in the options: the depth of the node being parsed, the number of nodes so
+  // far, and whether a limit stopped parsing.
+  depth: number;
+  nodeCount: number;
+  aborted: boolean;
+
+  constructor(source: string, filename = "", options: ParseOptions = {}) {
+    this.source = source;
+    this.filename = filename;
+    this.lines = lineTableFromSource(source);
+    this.offset = 0;
+    this.errors = [];
+    this.options = options;
+    this.tokens = [];
+    this.spans = new Map();
+    this.danglingComments = [];
+    this.listEndComments = [];
+    this.reuseFrom = undefined;
+    this.errorCounts = new Map();
+    this.lookahead = undefined;
+    this.depth = 0;
+    this.nodeCount = 0;
+    this.aborted = false;
+  }
+
+  check(
+    kind: TokenKind = AllTokens,
+    cond: (token: Token) => boolean = () => true,
+  ): Token | undefined {
+    if (this.lookahead?.offset !== this.offset) {
+      this.lookahead = lexToken(this.source, this.offset, this.options);
+    }
+    const token = this.lookahead;
+    if (token && (token.kind & kind) && cond(token)) {
+      return token;
+    } else {
+      return undefined;
+    }
+  }
+
+  consume(
+    kind: TokenKind = AllTokens,
+    cond: (token: Token) => boolean = () => true,
+  ): Token | undefined {
+    const token = this.check(kind, cond);
+    if (token) {
+      locateToken(token, this.offset, this.lines, this.filename);
+      this.offset += token.rawString.length;
+      this.last = token;
+      if (this.options.lossless) {
+        this.tokens.push(token);
+      }
+      if (this.options.trace) {
+        this.options.trace({ kind: "consume", token });
+      }
+    }
+    return token;
+  }
+
+  consumeAll(
+    kind: TokenKind = AllTokens,
+    cond: (token: Token) => boolean = () => true,
+  ): Token[] {
+    const tokens: Token[] = [];
+    while (true) {
+      const token = this.consume(kind, cond);
+      if (!token) {
+        break;
+      }
+      tokens.push(token);
+    }
+    return tokens;
+  }
+
+  done(): boolean {
+    return !this.check();
+  }
+
+  error(msg: string, code: ParseErrorCode, offset: number = this.offset) {
+    this.report(Severity.Error, msg, code, offset);
+  }
+
+  report(severity: Severity, msg: string, code: string, offset: number) {
+    const error = new ParseError(msg, offset, this.codeLocFromOffset(offset), code, severity);
+    this.errors.push(error);
+    if (this.options.trace) {
+      this.options.trace({ kind: "error", error });
+    }
+  }
+
+  codeLocFromOffset(offset: number): CodeLoc {
+    return this.lines.codeLocFromOffset(offset, this.filename);
+  }
+
+  /**
+   * Parses the entire source as a File node.
+   */
+  parseFile(): Node {
+    const root = new Node(NodeKind.File, this.filename, this.source, 0);
+    root.loc = this.codeLocFromOffset(0);
+    root.endLoc = this.codeLocFromOffset(this.source.length);
+    this.enter("file");
+    const maxSourceSize = this.options.maxSourceSize ?? Infinity;
+    if (this.source.length > maxSourceSize) {
+      this.error(`the source is ${this.source.length} characters long, more than the limit of ${maxSourceSize}`, "source-too-large", 0);
+    } else {
+      this.parseTopLevel(root.children);
+      root.endComments = this.takeListEndComments();
+    }
+    this.exit("file");
+    linkNodes(root, root.children);
+
+    if (this.options.lossless) {
+      this.spans.set(root, [0, this.tokens.length]);
+      this.buildSyntax(root);
+    }
+
+    return root;
+  }
+
+  /**
+   * Parses top-level nodes into `children` until the end of the file, or until reaching an old
+   * node that can be reused, which is left in `reuseFrom`.
+   */
+  parseTopLevel(children: Node[], resume?: ResumePoint) {
+    try {
+      this.parseTopLevelNodes(children, resume);
+    } catch (e) {
+      // A limit was exceeded, and has already been reported.
+      if (!(e instanceof ParseAborted)) {
+        throw e;
+      }
+      this.aborted = true;
+    }
+  }
+
+  parseTopLevelNodes(children: Node[], resume: ResumePoint | undefined) {
+    // The file is parsed as one big list of explicit children, but a stray closing delimiter
+    // would end that list early, so we report those and keep going.
+    while (true) {
+      this.parseExplicitChildren(children, resume);
+      if (this.reuseFrom) {
+        break;
+      }
+      const closerOffset = this.offset;
+      const closerStart = this.tokens.length;
+      const closer = this.consume(TokenKind.Reserved, t => ")]}".includes(t.string));
+      if (!closer) {
+        break;
+      }
+      const errorCount = this.errors.length;
+      this.error(`"${closer.string}" does not close any list`, "unmatched-closer", closerOffset);
+      const marker = new Node(NodeKind.ErrorMarker, closer.string, closer.rawString, closerOffset);
+      this.errorCounts.set(marker, errorCount);
+      marker.loc = closer.loc;
+      marker.endLoc = closer.endLoc;
+      marker.comments = this.takeListEndComments();
+      marker.prevComment = stringFromLastComment(marker.comments);
+      this.spans.set(marker, [closerStart, this.tokens.length]);
+      children.push(marker);
+      if (resume) {
+        resume = { ...resume, comments: [], flags: 0 };
+      }
+    }
+  }
+
+  /**
+   * Parses this context's source, which is `root`'s source with `edit` applied, reusing as much
+   * of `root` as possible. `errors` are the diagnostics from parsing `root`.
+   *
+   * A top-level node is reparsed if the edit touches it or the space on either side of it, since
+   * that space holds its comments and separators. Parsing starts at the first such node, where
+   * its comments and separator flags are known from the old tree, and stops at the first old
+   * node after the edit that it reaches with the same comments and separator flags. Everything
+   * from there on is reused.
+   */
+  reparseFile(root: Node, errors: ParseError[], edit: SourceEdit): Node {
+    const nodes = root.children;
+    const editEnd = edit.offset + edit.deleteLength;
+    const delta = edit.insertText.length - edit.deleteLength;
+    const spaceBefore = (i: number) => i === 0 ? 0 : nodes[i - 1].offset + nodes[i - 1].rawString.length;
+    const spaceAfter = (i: number) => i === nodes.length - 1 ? root.rawString.length : nodes[i + 1].offset;
+    const touched = (i: number) => spaceBefore(i) <= editEnd && spaceAfter(i) >= edit.offset;
+
+    let first = nodes.findIndex((_, i) => touched(i));
+    if (first < 0) {
+      first = nodes.length;
+    }
+    let last = first;
+    while (last + 1 < nodes.length && touched(last + 1)) {
+      last++;
+    }
+
+    // The edit always comes after the start of the first reparsed node, unless that is the first
+    // node in the file, in which case we start from the top.
+    const children = nodes.slice(0, first);
+    const start = first === 0 || first === nodes.length ? 0 : nodes[first].offset;
+    const resume: ResumePoint = {
+      comments: start === 0 ? [] : nodes[first].comments.filter(c => c.offset < start),
+      flags: start === 0 ? 0 : nodes[first].flags & (NodeFlags.IsAfterComma | NodeFlags.IsAfterSemicolon),
+      delta,
+      reusable: new Map(nodes.slice(last + 1).map(n => [n.offset + delta, n])),
+    };
+    if (start === 0) {
+      children.length = 0;
+    }
+    this.offset = start;
+    this.parseTopLevel(children, resume);
+
+    // Keep the old errors outside the reparsed text, and shift the ones after it.
+    const reuseOffset = this.reuseFrom?.offset ?? Infinity;
+    const newErrors = this.errors;
+    this.errors = errors.filter(err => err.offset < start);
+    this.errors.push(...newErrors);
+    for (const err of errors.filter(err => err.offset >= reuseOffset)) {
+      err.offset += delta;
+      err.loc = this.codeLocFromOffset(err.offset);
+      this.errors.push(err);
+    }
+
+    const file = new Node(NodeKind.File, this.filename, this.source, 0);
+    if (this.reuseFrom) {
+      const reused = nodes.slice(nodes.indexOf(this.reuseFrom));
+      const shifted = new Set<Token>();
+      for (const node of reused) {
+        this.shiftNode(node, delta, shifted);
+      }
+      for (const comment of root.endComments) {
+        locateToken(comment, comment.offset + delta, this.lines, this.filename);
+      }
+      children.push(...reused);
+      file.endComments = root.endComments;
+    } else {
+      file.endComments = this.takeListEndComments();
+    }
+    file.loc = this.codeLocFromOffset(0);
+    file.endLoc = this.codeLocFromOffset(this.source.length);
+    file.children = children;
+    linkNodes(file, file.children);
+    return file;
+  }
+
+  /**
+   * Moves a reused node and everything in it by `delta`, recomputing locations for this
+   * context's source. Comment tokens can be shared between nodes, so `shifted` tracks the
+   * tokens that have already moved.
+   */
+  shiftNode(node: Node, delta: number, shifted: Set<Token>) {
+    node.offset += delta;
+    node.loc = this.codeLocFromOffset(node.offset);
+    node.endLoc = this.codeLocFromOffset(node.offset + node.rawString.length);
+    for (const comment of [...node.comments, ...node.endComments]) {
+      if (!shifted.has(comment)) {
+        shifted.add(comment);
+        locateToken(comment, comment.offset + delta, this.lines, this.filename);
+      }
+    }
+    for (const n of node.tags) {
+      this.shiftNode(n, delta, shifted);
+    }
+    for (const n of node.children) {
+      this.shiftNode(n, delta, shifted);
+    }
+  }
+
+  /**
+   * In lossless mode, distributes the consumed tokens among a node and its descendants. Each
+   * node's syntax gets the tokens in its span that aren't in a tag's or child's span. Then
+   * trivia next to each tag and child moves from the syntax to that node: trivia on the same
+   * line after a node is its trailing trivia, and other trivia before a node is its leading
+   * trivia.
+   */
+  buildSyntax(node: Node) {
+    const [start, end] = this.spans.get(node) ?? [0, 0];
+    const subnodes = [...node.tags, ...node.children].filter(n => this.spans.has(n));
+    subnodes.sort((a, b) => (this.spans.get(a)?.[0] ?? 0) - (this.spans.get(b)?.[0] ?? 0));
+
+    const items: (Token | Node)[] = [];
+    let i = start;
+    for (const subnode of subnodes) {
+      const [subStart, subEnd] = this.spans.get(subnode) ?? [i, i];
+      items.push(...this.tokens.slice(i, subStart));
+      items.push(subnode);
+      this.buildSyntax(subnode);
+      i = subEnd;
+    }
+    items.push(...this.tokens.slice(i, end));
+
+    const syntax: (Token | Node)[] = [];
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      if (!(item instanceof Node)) {
+        syntax.push(item);
+        continue;
+      }
+
+      // Everything since the last non-trivia becomes leading trivia.
+      while (syntax.length > 0) {
+        const prev = syntax[syntax.length - 1];
+        if (prev instanceof Node || !tokenIsTrivia(prev)) {
+          break;
+        }
+        syntax.pop();
+        item.leadingTrivia.unshift(prev);
+      }
+      syntax.push(item);
+
+      // Same-line trivia after the node becomes trailing trivia.
+      for (; i + 1 < items.length; i++) {
+        const next = items[i + 1];
+        if (next instanceof Node || !tokenIsTrivia(next) || next.kind === TokenKind.Newline) {
+          break;
+        }
+        item.trailingTrivia.push(next);
+      }
+    }
+    node.syntax = syntax;
+    if (syntax.length === 0) {
+      emptySyntaxNodes.add(node);
+    }
+  }
+
+  /**
+   * Counts a node that is about to be parsed against the limits in the options, and aborts
+   * parsing if it goes over one.
+   */
+  countNode(offset: number) {
+    this.nodeCount += 1;
+    const maxNodes = this.options.maxNodes ?? Infinity;
+    const maxDepth = this.options.maxDepth ?? defaultMaxDepth;
+    if (this.nodeCount > maxNodes) {
+      this.error(`the file has more than ${maxNodes} nodes`, "too-many-nodes", offset);
+      throw new ParseAborted();
+    }
+    if (this.depth > maxDepth) {
+      this.error(`nodes are nested more than ${maxDepth} deep`, "too-deep", offset);
+      throw new ParseAborted();
+    }
+  }
+
+  enter(rule: ParseRule) {
+    if (this.options.trace) {
+      this.options.trace({ kind: "enter", rule, offset: this.offset });
+    }
+  }
+
+  exit(rule: ParseRule) {
+    if (this.options.trace) {
+      this.options.trace({ kind: "exit", rule, offset: this.offset });
+    }
+  }
+
+  /**
+   * Consumes whitespace tokens of the given kinds. Broken comments and stray characters can't be
+   * part of any node, so they are reported and skipped here as well, so that parsing can
+   * continue as if they were whitespace.
+   */
+  consumeWhitespace(kind: TokenKind): Token[] {
+    const tokens: Token[] = [];
+    while (true) {
+      const token = this.consume(kind | BadTokens, t => t.kind !== TokenKind.Reserved || charIsStrayReserved(t.string));
+      if (!token) {
+        break;
+      }
+      if (token.kind & kind) {
+        tokens.push(token);
+      } else {
+        this.reportBadToken(token);
+      }
+    }
+    return tokens;
+  }
+
+  reportBadToken(token: Token) {
+    switch (token.kind) {
+      case TokenKind.BrokenComment: {
+        this.error("unterminated block comment", "broken-comment", token.offset + unmatchedCommentOffset(token.rawString));
+      } break;
+      case TokenKind.BadCharacter: {
+        const s = token.rawString.length > 1 ? "s" : "";
+        this.error(`unexpected character${s} "${sanitize(token.rawString)}"`, "bad-character", token.offset);
+      } break;
+      case TokenKind.Reserved: {
+        this.error(`"${token.string}" is a reserved character and cannot be used here`, "reserved-character", token.offset);
+      } break;
+    }
+  }
+
+  /**
+   * Consumes a label. Broken string literals are consumed as labels too, so that parsing can
+   * continue normally after reporting them.
+   */
+  consumeLabel(): Token | undefined {
+    const label = this.consume(Label | TokenKind.BrokenStringLiteral);
+    if (label?.kind === TokenKind.BrokenStringLiteral) {
+      this.error("unterminated string literal", "broken-string", label.offset);
+    }
+    return label;
+  }
+
+  /**
+   * Skips tokens until the next separator, newline, or closing delimiter that does not belong to
+   * a list opened along the way, so that parsing can resume after an error. The token it stops
+   * at is not consumed.
+   */
+  skipToRecoveryPoint() {
+    let depth = 0;
+    while (true) {
+      const token = this.check();
+      if (!token) {
+        break;
+      }
+      if (token.kind === TokenKind.Reserved) {
+        if ("([{".includes(token.string)) {
+          depth += 1;
+        } else if (")]}".includes(token.string)) {
+          if (depth === 0) {
+            break;
+          }
+          depth -= 1;
+        } else if (depth === 0 && ",;".includes(token.string)) {
+          break;
+        }
+      } else if (depth === 0 && token.kind === TokenKind.Newline) {
+        break;
+      }
+      this.consume();
+    }
+  }
+
+  takeDanglingComments(): Token[] {
+    const comments = this.danglingComments;
+    this.danglingComments = [];
+    return comments;
+  }
+
+  takeListEndComments(): Token[] {
+    const comments = this.listEndComments;
+    this.listEndComments = [];
+    return comments;
+  }
+
+  /**
+   * Consumes line whitespace and returns the comments in it.
+   */
+  consumeWhitespaceLine(): Token[] {
+    const tokens = this.consumeWhitespace(WhitespaceLine);
+    return getComments(tokens);
+  }
+
+  /**
+   * Consumes all whitespace and returns the comments in it.
+   */
+  consumeWhitespaceAll(): Token[] {
+    const tokens = this.consumeWhitespace(WhitespaceAll);
+    return getComments(tokens);
+  }
+
+  /**
+   * Grammar:
+   * 
+   *     whitespace-node = whitespace-line [NEWLINE] [whitespace-line]
+   * 
+   * Returns any comments that were encountered.
+   */
+  consumeWhitespaceNode(): Token[] {
+    const tokens: Token[] = [];
+    tokens.push(...this.consumeWhitespace(WhitespaceLine));
+    this.consume(TokenKind.Newline);
+    tokens.push(...this.consumeWhitespace(WhitespaceLine));
+    return getComments(tokens);
+  }
+
+  /**
+   * Grammar:
+   * 
+   *     node           = [tag-list [whitespace-all]] (named-node / anonymous-node)
+   *     named-node     = label [":" [whitespace-node] (explicit-list / implicit-list)]
+   *     anonymous-node = explicit-list
+   * 
+   * This function parses an entire `node`. If no valid node can be parsed, it reports an error,
+   * skips ahead to a point where parsing can resume, and returns an ErrorMarker node instead.
+   */
+  parseNode(preComments: Token[]): Node {
+    this.enter("node");
+
+    const startOffset = this.offset;
+    const startToken = this.tokens.length;
+    const errorCount = this.errors.length;
+    this.depth += 1;
+    this.countNode(startOffset);
+    const node = new Node(NodeKind.Main, "", "", this.offset);
+    if (this.depth === 1) {
+      this.errorCounts.set(node, errorCount);
+    }
+    node.loc = this.codeLocFromOffset(startOffset);
+
+    node.tags = this.parseTagList(preComments);
+
+    const comments = [...this.takeDanglingComments(), ...this.consumeWhitespaceAll()];
+    node.comments = [...new Set([...preComments, ...([] as Token[]).concat(...node.tags.map(tag => tag.comments)), ...comments])];
+    node.prevComment = stringFromLastComment(comments.length > 0 ? comments : preComments);
+
+    const anonymous = this.check(TokenKind.Reserved, t => "([{".includes(t.string));
+    if (anonymous) {
+      const [children, flags, endComments] = this.parseExplicitList();
+      node.children = children ?? [];
+      node.flags |= flags;
+      node.endComments = endComments;
+    } else {
+      const label = this.consumeLabel();
+      if (label) {
+        node.string = label.string;
+        node.flags |= label.flags;
+                
+        const colon = this.consume(TokenKind.Reserved, t => t.string === ":");
+        if (colon) {
+          // Node has children
+          const comment = this.consumeWhitespaceNode();
+
+          const opener = this.check(TokenKind.Reserved, t => "([{".includes(t.string));
+          if (opener) {
+            const [children, flags, endComments] = this.parseExplicitList(comment);
+            node.children = children ?? [];
+            node.flags |= flags;
+            node.endComments = endComments;
+          } else {
+            node.children = this.parseImplicitList(comment);
+          }
+        }
+      } else {
+        this.error(`expected a valid node label, but got "${sanitize(this.check()?.string ?? "end of file")}" instead`, "expected-label");
+        const skippedOffset = this.offset;
+        this.skipToRecoveryPoint();
+        node.kind = NodeKind.ErrorMarker;
+        node.string = this.source.slice(skippedOffset, this.offset);
+      }
+    }
+
+    const endOffset = this.offset;
+    node.rawString = this.source.slice(startOffset, endOffset);
+    node.endLoc = this.codeLocFromOffset(endOffset);
+    linkNodes(node, node.tags);
+    linkNodes(node, node.children);
+    if (this.options.lossless) {
+      this.spans.set(node, [startToken, this.tokens.length]);
+    }
+
+    this.depth -= 1;
+    this.exit("node");
+    return node;
+  }
+
+  /**
+   * Grammar:
+   * 
+   *     tag-list = "@" label [explicit-list] [whitespace-all] [tag-list]
+   * 
+   * After parsing, this function verifies that the list of children used parentheses (the only
+   * valid delimiter for tag children).
+   */
+  parseTagList(preComments: Token[]): Node[] {
+    this.enter("tag-list");
+
+    const result: Node[] = [];
+
+    let comments = preComments;
+    while (true) {
+      const startToken = this.tokens.length;
+      const at = this.consume(TokenKind.Reserved, t => t.string === "@");
+      if (!at) {
+        break;
+      }
+
+      const label = this.consumeLabel();
+      if (!label) {
+        this.error(`"${sanitize(this.last?.rawString ?? "<undefined>")}" is not a proper tag label`, "bad-tag-label");
+        break;
+      }
+
+      this.countNode(label.offset);
+            
+      const tagNode = new Node(NodeKind.Tag, label.string, label.rawString, label.offset);
+      tagNode.loc = label.loc;
+      tagNode.endLoc = label.endLoc;
+      const tagChildrenOffset = this.offset;
+      const [tagChildren, tagFlags, tagEndComments] = this.parseExplicitList();
+      tagNode.flags |= label.flags | tagFlags;
+      tagNode.prevComment = stringFromLastComment(comments);
+      tagNode.comments = comments;
+
+      // An unterminated list has already been reported, so only the opener is checked then.
+      const closerFlags = NodeFlags.HasParenRight | NodeFlags.HasBracketRight | NodeFlags.HasBraceRight;
+      const childrenAreParenthesized = tagNode.flags&NodeFlags.HasParenLeft && (
+        tagNode.flags&NodeFlags.HasParenRight || !(tagNode.flags&closerFlags)
+      );
+      if (tagChildren !== undefined && !childrenAreParenthesized) {
+        this.error("tag children can only be delimited using parentheses", "bad-tag-delimiter", tagChildrenOffset);
+      }
+      tagNode.children = tagChildren ?? [];
+      tagNode.endComments = tagEndComments;
+      linkNodes(tagNode, tagNode.children);
+      if (this.options.lossless) {
+        this.spans.set(tagNode, [startToken, this.tokens.length]);
+      }
+
+      result.push(tagNode);
+
+      comments = this.consumeWhitespaceAll();
+    }
+
+    if (result.length > 0) {
+      this.danglingComments = comments;
+    }
+    this.exit("tag-list");
+    return result;
+  }
+
+  /**
+   * Grammar:
+   * 
+   *     explicit-list = ("(" / "[" / "{") explicit-children (")" / "]" / "}")
+   * 
+   * Note that, while the grammar allows for any combination of opening and closing delimiters,
+   * some combinations are forbidden and will be validated separately.
+   *
+   * `preComments` come before the opener, and are treated as if they came after it. Returns the
+   * children, the delimiter flags for the parent, and the comments after the last child.
+   */
+  parseExplicitList(preComments: Token[] = []): [Node[] | undefined, NodeFlags, Token[]] {
+    this.enter("explicit-list");
+
+    let parentFlags: NodeFlags = 0;
+
+    const openerOffset = this.offset;
+    const opener = this.consume(TokenKind.Reserved, t => "([{".includes(t.string));
+    if (!opener) {
+      this.exit("explicit-list");
+      return [undefined, 0, []];
+    }
+    switch (opener.string) {
+      case "(": parentFlags |= NodeFlags.HasParenLeft; break;
+      case "[": parentFlags |= NodeFlags.HasBracketLeft; break;
+      case "{": parentFlags |= NodeFlags.HasBraceLeft; break;
+    }
+        
+    const children = this.parseExplicitChildren([], undefined, preComments);
+    const endComments = this.takeListEndComments();
+
+    const closerOffset = this.offset;
+    const closer = this.consume(TokenKind.Reserved, t => ")]}".includes(t.string));
+    if (!closer) {
+      // Keep the children anyway; a partial tree is more useful than nothing.
+      this.error("List was not terminated", "unterminated-list", openerOffset);
+      this.exit("explicit-list");
+      return [children, parentFlags, endComments];
+    }
+
+    const isBraced = opener.string === "{" && closer.string === "}";
+    const isBracketed = (
+      "([".includes(opener.string)
+            && ")]".includes(closer.string)
+    );
+    const isExact = "([{".indexOf(opener.string) === ")]}".indexOf(closer.string);
+    if (!(isBraced || isBracketed) || (this.options.delimiters === "strict" && !isExact)) {
+      this.error(`"${opener.string}" and "${closer.string}" cannot be used together`, "mismatched-delimiters", openerOffset);
+      this.report(Severity.Note, "list was closed here", "mismatched-delimiters", closerOffset);
+    }
+
+    switch (closer.string) {
+      case ")": parentFlags |= NodeFlags.HasParenRight; break;
+      case "]": parentFlags |= NodeFlags.HasBracketRight; break;
+      case "}": parentFlags |= NodeFlags.HasBraceRight; break;
+    }
+
+    this.exit("explicit-list");
+    return [children, parentFlags, endComments];
+  }
+
+  /**
+   * Grammar:
+   * 
+   *     explicit-children = [whitespace-all] [
+   *                           node [whitespace-all] [SEPARATOR]
+   *                           explicit-children
+   *                         ]
+   * 
+   * Since this part of the grammar only occurs within `explicit-list` and `file`, this function
+   * will exit when it sees either a closing delimiter or the end of the token stream. It will
+   * not consume the final delimiter, if any, so that `_parseExplicitList` can consume it.
+   *
+   * Comments between nodes are divided up here; see Node.prevComment for the rules. Comments
+   * after the last node that are not its post-comments are left in `listEndComments`.
+   *
+   * Nodes are added to `result` as soon as they are parsed, so that the top level keeps them if
+   * parsing is aborted.
+   */
+  parseExplicitChildren(result: Node[] = [], resume?: ResumePoint, preComments: Token[] = []): Node[] {
+    // Early out if empty
+    let comments = [...resume?.comments ?? [], ...preComments, ...this.consumeWhitespaceAll()];
+    const endDelimiter = this.check(TokenKind.Reserved, t => ")]}".includes(t.string));
+    if (endDelimiter || this.done()) {
+      this.listEndComments = comments;
+      return result;
+    }
+
+    let nextNodeFlags: NodeFlags = resume?.flags ?? 0;
+    while (true) {
+      const node = this.parseNode(comments);
+      node.flags |= nextNodeFlags;
+      nextNodeFlags = 0;
+      result.push(node); // this is JS, so we can continue to modify node after pushing it
+
+      // An implicit list may have taken the newline, so the node ends on the last token's line.
+      const endLine = this.last?.loc.line ?? node.loc.line;
+      comments = [...this.takeDanglingComments(), ...this.consumeWhitespaceAll()];
+      const separator = this.consume(TokenKind.Reserved, t => ",;".includes(t.string));
+      if (separator) {
+        switch (separator.string) {
+          case ",": {
+            node.flags |= NodeFlags.IsBeforeComma;
+            nextNodeFlags |= NodeFlags.IsAfterComma;
+          } break;
+          case ";": {
+            node.flags |= NodeFlags.IsBeforeSemicolon;
+            nextNodeFlags |= NodeFlags.IsAfterSemicolon;
+          } break;
+        }
+      }
+
+      // Done with that node, now either start the next or bail
+      comments.push(...this.consumeWhitespaceAll());
+      const endDelimiter = this.check(TokenKind.Reserved, t => ")]}".includes(t.string));
+      const nextNodeLine = this.codeLocFromOffset(this.offset).line;
+      if (endDelimiter || this.done() || nextNodeLine > endLine) {
+        attachPostComments(node, comments.filter(c => c.loc.line === endLine));
+        comments = comments.filter(c => c.loc.line !== endLine);
+      }
+      if (endDelimiter || this.done()) {
+        this.listEndComments = comments;
+        break;
+      }
+      const reusable = resume?.reusable.get(this.offset);
+      if (resume && reusable && canReuseNode(reusable, comments, nextNodeFlags, resume.delta)) {
+        this.reuseFrom = reusable;
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Grammar:
+   * 
+   *     implicit-list     = implicit-children (SEPARATOR / NEWLINE)
+   *     implicit-children = node [whitespace-line] [implicit-children]
+   * 
+   * We parse the two together in a single function for simplicity. Comments at the end of the
+   * list are left in `danglingComments` for the enclosing list to assign.
+   */
+  parseImplicitList(preComments: Token[]): Node[] {
+    this.enter("implicit-list");
+
+    const result: Node[] = [];
+    let comments = preComments;
+    while (true) {
+      const node = this.parseNode(comments);
+      result.push(node);
+
+      comments = [...this.takeDanglingComments(), ...this.consumeWhitespaceLine()];
+
+      // Separators and newlines end the current implicit list.
+      const nextIsSeparator = this.check(TokenKind.Reserved, t => ",;".includes(t.string));
+      const nextIsNewline = this.check(TokenKind.Newline);
+      if (nextIsSeparator || nextIsNewline) {
+        this.consume();
+        break;
+      }
+
+      // Alternatively, we may encounter an explicit set closer, which must belong to a parent
+      // list, or the end of the file. Just bail.
+      if (this.check(TokenKind.Reserved, t => ")]}".includes(t.string)) || this.done()) {
+        break;
+      }
+    }
+
+    this.danglingComments = comments;
+    this.exit("implicit-list");
+    return result;
+  }
+}
+
+export enum GenerateFlags {
+  Tags         = 1 << 0,
+  TagArguments = 1 << 1,
+  Children     = 1 << 2,
+  Comments     = 1 << 3,
+  NodeKind     = 1 << 4,
+  NodeFlags    = 1 << 5,
+  Location     = 1 << 6,
+    
+  Tree = (
+    Tags
+    | TagArguments
+    | Children
+  ),
+  All = 0xffffffff,
+}
+
+export function debugDumpFromNode(
+  node: Node,
+  indent: number,
+  indentString: string,
+  flags: GenerateFlags,
+): string {
+  let out = "";
+
+  function printIndent() {
+    for (let i = 0; i < indent; i++) {
+      out += indentString;
+    }
+  }
+
+  if (flags & GenerateFlags.Comments && node.prevComment) {
+    printIndent();
+    out += "/*\n";
+    printIndent();
+    out += `${node.prevComment}\n`;
+    printIndent();
+    out += "*/\n";
+  }
+
+  // tags
+  if (flags & GenerateFlags.Tags) {
+    for (const tag of node.tags) {
+      printIndent();
+      out += `@${tag.string}`;
+      if (flags & GenerateFlags.TagArguments && tag.children.length > 0) {
+        const tagArgIndent = indent + 1 + tag.string.length + 1;
+        out += "(";
+        for (const [i, child] of tag.children.entries()) {
+          if (i > 0) {
+            out += ",\n";
+          }
+          const childIndent = i === 0 ? 0 : tagArgIndent;
+          out += debugDumpFromNode(child, childIndent, " ", flags);
+        }
+        out += ")\n";
+      } else {
+        out += "\n";
+      }
+    }
+  }
+
+  // node kind
+  if (flags & GenerateFlags.NodeKind) {
+    printIndent();
+    out += `// kind: "${NodeKind[node.kind]}"\n`;
+  }
+
+  // node flags
+  if (flags & GenerateFlags.NodeFlags) {
+    printIndent();
+    const flagsStr = stringListFromNodeFlags(node.flags).join("|");
+    out += `// flags: "${flagsStr}"\n`;
+  }
+
+  // location
+  if (flags & GenerateFlags.Location) {
+    printIndent();
+    out += `// location: "${stringFromCodeLoc(codeLocFromNode(node))}"\n`;
+  }
+
+  // name of node
+  if (node.string) {
+    printIndent();
+    if (node.kind === NodeKind.File) {
+      out += `\`${node.string}\``;
+    } else {
+      out += node.string; // TODO: in ryan's code, this is the raw string instead??
+    }
+  }
+
+  // children list
+  if (flags & GenerateFlags.Children && node.children.length > 0) {
+    if (node.string) {
+      out += ":\n";
+    }
+    printIndent();
+    out += "{\n";
+    for (const child of node.children) {
+      out += debugDumpFromNode(child, indent + 1, indentString, flags);
+      out += ",\n";
+    }
+    printIndent();
+    out += "}";
+  }
+
+  return out;
+}
+
+function stringListFromNodeFlags(flags: NodeFlags): string[] {
+  const names: string[] = [];
+  for (const flagName of nodeFlagNames) {
+    if (flags & NodeFlags[flagName]) {
+      names.push(flagName);
+    }
+  }
+  return names;
+}
+
+export interface PrintOptions {
+  // The string used for each level of indentation. Defaults to two spaces.
+  indent?: string;
+
+  // Explicit lists are printed on a single line if they fit within this many columns. Defaults
+  // to 100.
+  lineWidth?: number;
+
+  // "preserve" (the default) prints each list the way it was parsed. "explicit" prints every
+  // list with delimiters, using braces when a list had none. "implicit" prints a named node's
+  // list without delimiters whenever that parses back to the same children.
+  lists?: "preserve" | "explicit" | "implicit";
+
+  // Whether to print node comments. Defaults to true.
+  comments?: boolean;
+
+  // The options that the output will be parsed with. Only the dialect switches matter: with
+  // `hashInLabels`, labels like `C#` are printed without quotes.
+  parseOptions?: ParseOptions;
+}
+
+/**
+ * Prints a node as Metadesk source. Unlike debugDumpFromNode, the output is valid Metadesk that
+ * parses back to the same tree, including list delimiters, separators, string delimiters, and
+ * tags. (Whitespace is not preserved.)
+ *
+ * File and Project nodes print their children as the top level of a file.
+ */
+export function print(node: Node, options: PrintOptions = {}): string {
+  const printer = new Printer(options);
+  if (node.kind === NodeKind.File || node.kind === NodeKind.Project) {
+    return printer.printTopLevel(node.children, node.endComments);
+  }
+  const trailing = printer.trailingComments(node);
+  return printer.printNode(node, 0, false) + (trailing.length > 0 ? " " + trailing.join(" ") : "") + "\n";
+}
+
+/**
+ * Returns the comments in `source` that are missing from `output`, in source order. Formatting
+ * tools can use this to make sure that printing a file did not lose any of its comments.
+ */
+export function missingComments(source: string, output: string, filename = "", options: ParseOptions = {}): Token[] {
+  const remaining = getComments(tokenize(output, filename, options)).map(comment => comment.string);
+  return getComments(tokenize(source, filename, options)).filter(comment => {
+    const i = remaining.indexOf(comment.string);
+    if (i >= 0) {
+      remaining.splice(i, 1);
+    }
+    return i < 0;
+  });
+}
+
+/**
+ * Prints a node parsed with the `lossless` option exactly as it appeared in the source, including
+ * whitespace, comments, and bad characters. A node whose string has been changed since parsing
+ * prints its new label in place of the old one.
+ *
+ * Nodes without syntax (built by hand, or parsed without `lossless`), and nodes whose tags or
+ * children have been changed, fall back to the canonical form from print. `options` are the
+ * options the node was parsed with, for printing new labels in the same dialect.
+ */
+export function printLossless(node: Node, options: ParseOptions = {}): string {
+  let out = "";
+  for (const token of node.leadingTrivia) {
+    out += token.rawString;
+  }
+  out += printSyntax(node, options);
+  for (const token of node.trailingTrivia) {
+    out += token.rawString;
+  }
+  return out;
+}
+
+function printSyntax(node: Node, options: ParseOptions): string {
+  const subnodes = node.syntax.filter(item => item instanceof Node);
+  const expected = [...node.tags, ...node.children];
+  const unchanged = subnodes.length === expected.length && subnodes.every((n, i) => n === expected[i]);
+  const parsed = node.syntax.length > 0 || emptySyntaxNodes.has(node);
+  if (!parsed || !unchanged) {
+    const printer = new Printer({ parseOptions: options });
+    if (node.kind === NodeKind.File || node.kind === NodeKind.Project) {
+      return printer.printTopLevel(node.children, node.endComments);
+    }
+    // A parsed node's leading comments are in its trivia, which has already been printed.
+    return printer.printNode(node, 0, false, !parsed);
+  }
+
+  let out = "";
+  let labelSeen = node.kind === NodeKind.ErrorMarker || node.kind === NodeKind.File;
+  for (const item of node.syntax) {
+    if (item instanceof Node) {
+      out += printLossless(item, options);
+    } else if (!labelSeen && item.kind & (Label | TokenKind.BrokenStringLiteral)) {
+      labelSeen = true;
+      out += item.string === node.string ? item.rawString : rawLabelFromNode(node, options);
+    } else {
+      out += item.rawString;
+    }
+  }
+  return out;
+}
+
+class Printer {
+  indent: string;
+  lineWidth: number;
+  lists: "preserve" | "explicit" | "implicit";
+  comments: boolean;
+  parseOptions: ParseOptions;
+
+  constructor(options: PrintOptions) {
+    this.indent = options.indent ?? "  ";
+    this.lineWidth = options.lineWidth ?? 100;
+    this.lists = options.lists ?? "preserve";
+    this.comments = options.comments ?? true;
+    this.parseOptions = options.parseOptions ?? {};
+  }
+
+  printTopLevel(nodes: Node[], endComments: Token[]): string {
+    let out = "";
+    const files = nodes.filter(node => node.kind === NodeKind.File);
+    for (const file of files) {
+      out += this.printTopLevel(file.children, file.endComments);
+    }
+    for (const line of this.printLines(nodes.filter(node => node.kind !== NodeKind.File), 0)) {
+      out += line + "\n";
+    }
+    for (const comment of this.comments ? endComments : []) {
+      out += comment.rawString + "\n";
+    }
+    return out;
+  }
+
+  /**
+   * Prints a list of nodes as lines at the given indentation level (not included in the lines).
+   * Runs of simple nodes, like the parts of a C declaration, share a line until a separator, a
+   * node with a list, or the line width ends the line.
+   */
+  printLines(nodes: Node[], level: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    let breakBefore = true;
+    for (const [i, node] of nodes.entries()) {
+      const hasNext = i < nodes.length - 1;
+      const text = this.printNode(node, level, hasNext, false) + this.separatorAfter(node);
+      const space = startsWithOpener(node) ? "" : " ";
+      const fits = level * this.indent.length + line.length + space.length + text.length <= this.lineWidth;
+      const leading = this.leadingComments(node);
+      if (breakBefore || leading.length > 0 || !fits || text.includes("\n")) {
+        if (line) {
+          lines.push(line);
+        }
+        lines.push(...leading);
+        line = text;
+      } else {
+        line += space + text;
+      }
+      const trailing = this.trailingComments(node);
+      const hasPostComment = trailing.length > 0;
+      if (hasPostComment) {
+        line += " " + trailing.join(" ");
+      }
+
+      // Implicit lists must end with a newline, and nodes with lists read better on their own
+      // line anyway.
+      breakBefore = (
+        (node.flags & (NodeFlags.IsBeforeComma | NodeFlags.IsBeforeSemicolon)) !== 0
+        || this.listStyle(node, hasNext) !== "none"
+        || text.includes("\n")
+        || hasPostComment
+      );
+    }
+    if (line) {
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Prints a node, starting at the current position on a line, at the given indentation level.
+   * `hasNext` says whether another node follows in the same list, which affects whether an
+   * implicit list can be used. Leading comments are printed on the lines before the node, unless
+   * the caller takes care of them. Trailing comments are always left to the caller.
+   */
+  printNode(node: Node, level: number, hasNext: boolean, withComment = true): string {
+    let out = "";
+    if (withComment) {
+      for (const comment of this.leadingComments(node)) {
+        out += comment + "\n" + this.indent.repeat(level);
+      }
+    }
+    for (const tag of node.tags) {
+      out += this.printTag(tag, level, this.columnAfter(out, level)) + " ";
+    }
+
+    const label = rawLabelFromNode(node, this.parseOptions);
+    out += label;
+
+    switch (this.listStyle(node, hasNext)) {
+      case "none": break;
+      case "implicit": {
+        out += ": " + this.printImplicitChildren(node.children, level);
+      } break;
+      case "explicit": {
+        if (label) {
+          out += ": ";
+        }
+        const [open, close] = delimitersFromNodeFlags(node.flags);
+        out += this.printExplicitList(node.children, open, close, level, this.columnAfter(out, level), node.endComments);
+      } break;
+    }
+
+    return out;
+  }
+
+  /**
+   * The column at the end of `out`, which was printed starting at the given indentation level.
+   */
+  columnAfter(out: string, level: number): number {
+    const lastLine = out.slice(out.lastIndexOf("\n") + 1);
+    return out.includes("\n") ? lastLine.length : level * this.indent.length + lastLine.length;
+  }
+
+  /**
+   * Prints a tag. Its arguments go on one line, unless they have comments that need their own
+   * lines. `column` is where the tag starts.
+   */
+  printTag(tag: Node, level: number, column: number): string {
+    let out = "@" + rawLabelFromNode(tag, this.parseOptions);
+    const hasEndComments = this.comments && tag.endComments.length > 0;
+    if (hasEndComments || tag.children.some(child => this.needsOwnLine(child))) {
+      out += this.printExplicitList(tag.children, "(", ")", level, column + out.length, tag.endComments);
+    } else if (tag.children.length > 0 || tag.flags & NodeFlags.HasParenLeft) {
+      out += "(" + this.printInlineChildren(tag.children) + ")";
+    }
+    return out;
+  }
+
+  listStyle(node: Node, hasNext: boolean): "none" | "implicit" | "explicit" {
+    const hasDelimiters = (node.flags & NodeFlags.MaskSetDelimiters) !== 0;
+    if (!hasDelimiters && node.children.length === 0) {
+      return "none";
+    }
+    if (!rawLabelFromNode(node, this.parseOptions)) {
+      return "explicit"; // anonymous lists always have delimiters
+    }
+    if (this.comments && node.endComments.length > 0) {
+      return "explicit"; // the comments at the end need lines of their own
+    }
+
+    // An implicit list ends at the end of the line, but if the last child also has an implicit
+    // list, that child's list takes the newline, and this list would swallow whatever follows.
+    const lastChild = node.lastChild;
+    const canBeImplicit = lastChild !== undefined && !(
+      hasNext && this.listStyle(lastChild, false) === "implicit"
+    ) && node.children.every(child => !this.needsOwnLine(child));
+
+    switch (this.lists) {
+      case "preserve": return hasDelimiters || !canBeImplicit ? "explicit" : "implicit";
+      case "explicit": return "explicit";
+      case "implicit": return canBeImplicit ? "implicit" : "explicit";
+    }
+  }
+
+  /**
+   * Whether a node must be printed by printLines, because it prints comments that need a line
+   * break before or after them.
+   */
+  needsOwnLine(node: Node): boolean {
+    return this.leadingComments(node).length > 0 || this.trailingComments(node).length > 0;
+  }
+
+  /**
+   * The comments printed on the lines before a node: the attached comments that come before it,
+   * and any pre-comments of the node and its tags that were set by hand.
+   */
+  leadingComments(node: Node): string[] {
+    if (!this.comments) {
+      return [];
+    }
+    const tokens = node.comments.filter(c => !node.postComments.includes(c));
+    const comments = tokens.map(c => c.rawString);
+    for (const comment of [...node.tags.map(tag => tag.prevComment), node.prevComment]) {
+      if (comment && !tokens.some(c => c.string === comment)) {
+        comments.push(commentFromString(comment));
+      }
+    }
+    return comments;
+  }
+
+  /**
+   * The comments printed after a node on its last line: its post-comments, and a post-comment
+   * set by hand.
+   */
+  trailingComments(node: Node): string[] {
+    if (!this.comments) {
+      return [];
+    }
+    const comments = node.postComments.map(c => c.rawString);
+    if (node.nextComment && !node.postComments.some(c => c.string === node.nextComment)) {
+      comments.push(commentFromString(node.nextComment));
+    }
+    return comments;
+  }
+
+  printImplicitChildren(children: Node[], level: number): string {
+    return children.map((child, i) => {
+      const hasNext = i < children.length - 1;
+      let out = this.printNode(child, level, hasNext);
+      if (hasNext && this.listStyle(child, true) === "implicit") {
+        // The child's list needs ending, and a newline here would end this list too.
+        out += ",";
+      }
+      return out;
+    }).join(" ");
+  }
+
+  /**
+   * Prints children on a single line, e.g. for tag arguments. Children keep their separators,
+   * including the last one, and children with implicit lists get a comma after them to end
+   * their lists.
+   */
+  printInlineChildren(children: Node[]): string {
+    return children.map((child, i) => {
+      const hasNext = i < children.length - 1;
+      let out = this.printNode(child, 0, hasNext) + this.separatorAfter(child);
+      if (hasNext && !this.separatorAfter(child) && this.listStyle(child, true) === "implicit") {
+        out += ",";
+      }
+      return i > 0 && !startsWithOpener(child) ? " " + out : out;
+    }).join("");
+  }
+
+  /**
+   * Prints an explicit list, on one line if possible. `column` is where the list starts.
+   * `endComments` are printed on their own lines after the children.
+   */
+  printExplicitList(children: Node[], open: string, close: string, level: number, column: number, endComments: Token[] = []): string {
+    const comments = this.comments ? endComments.map(c => c.rawString) : [];
+    if (children.length === 0 && comments.length === 0) {
+      return open + close;
+    }
+
+    const inline = open + this.printInlineChildren(children) + close;
+    const fits = column + inline.length <= this.lineWidth;
+    if (fits && !inline.includes("\n") && comments.length === 0 && !children.some(child => this.needsOwnLine(child))) {
+      return inline;
+    }
+
+    const innerIndent = this.indent.repeat(level + 1);
+    let out = open + "\n";
+    for (const line of [...this.printLines(children, level + 1), ...comments]) {
+      out += innerIndent + line + "\n";
+    }
+    out += this.indent.repeat(level) + close;
+    return out;
+  }
+
+  separatorAfter(node: Node): string {
+    if (node.flags & NodeFlags.IsBeforeComma) {
+      return ",";
+    } else if (node.flags & NodeFlags.IsBeforeSemicolon) {
+      return ";";
+    }
+    return "";
+  }
+}
+
+/**
+ * Whether a node is printed starting with an opening delimiter, in which case it does not need a
+ * space between it and the previous node.
+ */
+function startsWithOpener(node: Node): boolean {
+  return node.string === "" && node.tags.length === 0 && node.prevComment === "" && node.kind === NodeKind.Main;
+}
+
+function delimitersFromNodeFlags(flags: NodeFlags): [string, string] {
+  let open = "{", close = "";
+  if (flags & NodeFlags.HasParenLeft) {
+    open = "(";
+  } else if (flags & NodeFlags.HasBracketLeft) {
+    open = "[";
+  }
+  if (flags & NodeFlags.HasParenRight) {
+    close = ")";
+  } else if (flags & NodeFlags.HasBracketRight) {
+    close = "]";
+  } else if (flags & NodeFlags.HasBraceRight) {
+    close = "}";
+  }
+  if (!close) {
+    close = { "(": ")", "[": "]", "{": "}" }[open] ?? "}";
+  }
+  return [open, close];
+}
+
+/**
+ * Reconstructs the source form of a node's label: strings get their original delimiters back.
+ * Other labels are checked to lex back to the same string, since nodes built by hand may not have
+ * a label kind, and edited nodes may have the wrong one; otherwise we pick a delimiter.
+ */
+function rawLabelFromNode(node: Node, options: ParseOptions): string {
+  if (node.kind === NodeKind.ErrorMarker) {
+    return node.string;
+  }
+  if (node.flags & NodeFlags.StringLiteral) {
+    let delim = "\"";
+    if (node.flags & NodeFlags.StringSingleQuote) {
+      delim = "'";
+    } else if (node.flags & NodeFlags.StringTick) {
+      delim = "`";
+    }
+    if (node.flags & NodeFlags.StringTriplet) {
+      delim = delim.repeat(3);
+    }
+    return delim + node.string + delim;
+  }
+  if (node.string === "") {
+    return node.string;
+  }
+
+  const token = getToken(node.string, options);
+  if (token && token.kind & (TokenKind.Identifier | TokenKind.Numeric | TokenKind.Symbol) && token.rawString === node.string) {
+    return node.string;
+  }
+  for (const delim of ["\"", "'", "`"]) {
+    if (!node.string.includes(delim) && !node.string.includes("\n")) {
+      return delim + node.string + delim;
+    }
+  }
+  return "\"\"\"" + node.string + "\"\"\"";
+}
+
+function commentFromString(comment: string): string {
+  if (comment.includes("\n")) {
+    return `/*${comment}*/`;
+  }
+  return `//${comment}`;
+}
+
+export enum ExprOperatorKind {
+  Prefix,
+  Postfix,
+  Binary,
+}
+
+export enum Associativity {
+  Left,
+  Right,
+}
+
+export interface ExprOperator {
+  kind: ExprOperatorKind;
+
+  // Matched against the strings of operator nodes. A postfix operator whose string is a pair of
+  // delimiters, like "()" or "[]", instead matches anonymous lists with those delimiters, which
+  // makes calls and indexing.
+  string: string;
+
+  // Operators with higher precedence bind more tightly.
+  precedence: number;
+
+  // Only used by binary operators.
+  associativity: Associativity;
+}
+
+/**
+ * The operators an expression can use, like MD_ExprOprTable in C Metadesk. A node can be both a
+ * prefix and a binary operator, like "-"; which one it is depends on where it appears.
+ */
+export class ExprOperatorTable {
+  operators: ExprOperator[];
+
+  constructor(operators: ExprOperator[] = []) {
+    this.operators = operators;
+  }
+
+  push(kind: ExprOperatorKind, precedence: number, str: string, associativity = Associativity.Left): this {
+    this.operators.push({ kind, string: str, precedence, associativity });
+    return this;
+  }
+
+  operatorFromNode(node: Node, kind: ExprOperatorKind): ExprOperator | undefined {
+    if (node.flags & NodeFlags.StringLiteral || node.tags.length > 0) {
+      return undefined;
+    }
+    let str = node.string;
+    if (node.string === "" && node.flags & NodeFlags.MaskSetDelimiters) {
+      str = delimiterPairFromNodeFlags(node.flags);
+    } else if (node.children.length > 0 || node.flags & NodeFlags.MaskSetDelimiters) {
+      return undefined;
+    }
+    return this.operators.find(op => op.kind === kind && op.string === str);
+  }
+}
+
+export enum ExprKind {
+  Leaf,    // A node that is not an operator, e.g. `a` or `1`.
+  Group,   // An anonymous list in operand position, e.g. `(a + b)`.
+  Prefix,
+  Postfix,
+  Binary,
+  Call,    // A postfix "()" operator, e.g. `f(a, b)`.
+  Index,   // A postfix "[]" operator, e.g. `a[i]`.
+}
+
+export class Expr {
+  kind: ExprKind;
+
+  // The leaf, the operator, or the list that this expression was parsed from.
+  node: Node;
+  op: ExprOperator | undefined;
+
+  // Prefix operators have only a right operand; postfix operators, calls, and indexing have only
+  // a left operand.
+  left: Expr | undefined;
+  right: Expr | undefined;
+
+  // The expressions inside a group, call, or index, one per separated run of children.
+  args: Expr[];
+
+  constructor(kind: ExprKind, node: Node, op: ExprOperator | undefined = undefined) {
+    this.kind = kind;
+    this.node = node;
+    this.op = op;
+    this.left = undefined;
+    this.right = undefined;
+    this.args = [];
+  }
+}
+
+export class ExprParseResult {
+  expr: Expr | undefined;
+  errors: ParseError[];
+
+  constructor(expr: Expr | undefined, errors: ParseError[]) {
+    this.expr = expr;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Parses a run of nodes, usually the children of some node, as an expression using the given
+ * operators. Anonymous lists are parsed recursively, splitting their children into arguments at
+ * separators. Other nodes with children are leaves.
+ *
+ * Errors are located at the nodes that caused them. The result has as much of the expression as
+ * could be parsed, and no expression if `nodes` is empty.
+ */
+export function parseExpr(nodes: Node[], table: ExprOperatorTable): ExprParseResult {
+  const parser = new ExprParser(nodes, table);
+  const expr = parser.parseTopLevel();
+  return new ExprParseResult(expr, parser.errors);
+}
+
+class ExprParser {
+  nodes: Node[];
+  table: ExprOperatorTable;
+  i: number;
+  errors: ParseError[];
+
+  constructor(nodes: Node[], table: ExprOperatorTable) {
+    this.nodes = nodes;
+    this.table = table;
+    this.i = 0;
+    this.errors = [];
+  }
+
+  parseTopLevel(): Expr | undefined {
+    if (this.nodes.length === 0) {
+      return undefined;
+    }
+    const expr = this.parse(-Infinity, true);
+    if (this.i < this.nodes.length && this.errors.length === 0) {
+      const node = this.nodes[this.i];
+      this.error(node, `expected an operator, but got "${stringFromExprNode(node)}"`, "expected-operator");
+    }
+    return expr;
+  }
+
+  /**
+   * Parses an expression that only uses operators with at least the given precedence, or more
+   * than it if `allowEqual` is false.
+   */
+  parse(minPrecedence: number, allowEqual: boolean): Expr | undefined {
+    const binds = (op: ExprOperator) => op.precedence > minPrecedence || (allowEqual && op.precedence === minPrecedence);
+
+    let left = this.parseOperand();
+    while (left && this.i < this.nodes.length) {
+      const node = this.nodes[this.i];
+
+      const postfix = this.table.operatorFromNode(node, ExprOperatorKind.Postfix);
+      if (postfix && binds(postfix)) {
+        this.i += 1;
+        let kind = ExprKind.Postfix;
+        if (node.string === "" && node.flags & NodeFlags.MaskSetDelimiters) {
+          kind = postfix.string === "[]" ? ExprKind.Index : ExprKind.Call;
+        }
+        const expr = new Expr(kind, node, postfix);
+        expr.left = left;
+        if (kind !== ExprKind.Postfix) {
+          expr.args = this.parseArgs(node);
+        }
+        left = expr;
+        continue;
+      }
+
+      const binary = this.table.operatorFromNode(node, ExprOperatorKind.Binary);
+      if (binary && binds(binary)) {
+        this.i += 1;
+        const expr = new Expr(ExprKind.Binary, node, binary);
+        expr.left = left;
+        expr.right = this.parse(binary.precedence, binary.associativity === Associativity.Right);
+        left = expr;
+        continue;
+      }
+
+      break;
+    }
+    return left;
+  }
+
+  parseOperand(): Expr | undefined {
+    if (this.i >= this.nodes.length) {
+      const last = this.nodes[this.nodes.length - 1];
+      this.error(last, `expected an operand after "${stringFromExprNode(last)}"`, "expected-operand");
+      return undefined;
+    }
+
+    const node = this.nodes[this.i];
+    const prefix = this.table.operatorFromNode(node, ExprOperatorKind.Prefix);
+    if (prefix) {
+      this.i += 1;
+      const expr = new Expr(ExprKind.Prefix, node, prefix);
+      expr.right = this.parse(prefix.precedence, true);
+      return expr;
+    }
+
+    const isOperator = (
+      this.table.operatorFromNode(node, ExprOperatorKind.Binary) !== undefined
+      || this.table.operatorFromNode(node, ExprOperatorKind.Postfix) !== undefined
+    );
+    if (isOperator && node.string !== "") {
+      this.error(node, `expected an operand, but got "${stringFromExprNode(node)}"`, "expected-operand");
+      return undefined;
+    }
+
+    this.i += 1;
+    if (node.string === "" && node.flags & NodeFlags.MaskSetDelimiters) {
+      const expr = new Expr(ExprKind.Group, node);
+      expr.args = this.parseArgs(node);
+      return expr;
+    }
+    return new Expr(ExprKind.Leaf, node);
+  }
+
+  parseArgs(list: Node): Expr[] {
+    const args: Expr[] = [];
+    let run: Node[] = [];
+    for (const child of list.children) {
+      run.push(child);
+      if (child.flags & (NodeFlags.IsBeforeComma | NodeFlags.IsBeforeSemicolon) || child === list.lastChild) {
+        const parser = new ExprParser(run, this.table);
+        const arg = parser.parseTopLevel();
+        this.errors.push(...parser.errors);
+        if (arg) {
+          args.push(arg);
+        }
+        run = [];
+      }
+    }
+    return args;
+  }
+
+  error(node: Node, message: string, code: ParseErrorCode) {
+    this.errors.push(errorFromNode(node, message, code));
+  }
+}
+
+function stringFromExprNode(node: Node): string {
+  if (node.string === "" && node.flags & NodeFlags.MaskSetDelimiters) {
+    return delimiterPairFromNodeFlags(node.flags);
+  }
+  return node.string;
+}
+
+function delimiterPairFromNodeFlags(flags: NodeFlags): string {
+  const [open, close] = delimitersFromNodeFlags(flags);
+  return open + close;
+}
+
+/**
+ * Describes what a node may look like, for validate. Every field is optional, and an omitted
+ * field allows anything.
+ */
+export interface NodeSchema {
+  // The allowed label kinds, as a combination of NodeFlags.Numeric, Identifier, StringLiteral,
+  // and Symbol.
+  labelKinds?: NodeFlags;
+
+  // The delimiters the node's list must use, if it has one. "none" requires an implicit list.
+  delimiters?: "braces" | "parens" | "brackets" | "none";
+
+  // The tags allowed on the node. Tags not listed here are reported.
+  tags?: Record<string, TagSchema>;
+  requiredTags?: string[];
+
+  // Schemas for children with the given labels. Other children are checked against
+  // `otherChildren`, or reported if it is false.
+  children?: Record<string, NodeSchema>;
+  otherChildren?: NodeSchema | false;
+  requiredChildren?: string[];
+  minChildren?: number;
+  maxChildren?: number;
+}
+
+export interface TagSchema {
+  minArgs?: number;
+  maxArgs?: number;
+
+  // The allowed label kinds of every argument, as in NodeSchema.
+  argLabelKinds?: NodeFlags;
+}
+
+/**
+ * Checks a node and its descendants against a schema. The schema for a File node describes its
+ * top-level children; for a Project node, it is applied to each file.
+ *
+ * Diagnostics are located at the offending nodes, and can be added to a ParseResult with
+ * `report`.
+ */
+export function validate(node: Node, schema: NodeSchema): ParseError[] {
+  const errors: ParseError[] = [];
+  if (node.kind === NodeKind.Project) {
+    for (const file of node.children) {
+      validateNode(file, schema, errors);
+    }
+  } else {
+    validateNode(node, schema, errors);
+  }
+  return errors;
+}
+
+function validateNode(node: Node, schema: NodeSchema, errors: ParseError[]) {
+  function error(node: Node, message: string, code: ParseErrorCode) {
+    errors.push(errorFromNode(node, message, code));
+  }
+  const name = describeNode(node);
+
+  const hasLabel = node.string !== "" || (node.flags & NodeFlags.MaskLabelKind) !== 0;
+  if (schema.labelKinds !== undefined && node.kind === NodeKind.Main && hasLabel && !(node.flags & schema.labelKinds)) {
+    error(node, `${name} must have a label of kind ${stringFromLabelKinds(schema.labelKinds)}`, "bad-label-kind");
+  }
+
+  const hasList = node.children.length > 0 || (node.flags & NodeFlags.MaskSetDelimiters) !== 0;
+  if (schema.delimiters !== undefined && hasList && delimiterStyleFromNodeFlags(node.flags) !== schema.delimiters) {
+    const expected = {
+      braces: "must be in braces",
+      parens: "must be in parentheses",
+      brackets: "must be in brackets",
+      none: "must not be delimited",
+    }[schema.delimiters];
+    error(node, `the children of ${name} ${expected}`, "bad-delimiters");
+  }
+
+  for (const tag of node.tags) {
+    const tagSchema = schema.tags && recordValue(schema.tags, tag.string);
+    if (schema.tags && !tagSchema) {
+      error(tag, `@${tag.string} is not allowed on ${name}`, "unknown-tag");
+    } else if (tagSchema) {
+      validateTag(tag, tagSchema, errors);
+    }
+  }
+  for (const tagName of schema.requiredTags ?? []) {
+    if (!node.hasTag(tagName)) {
+      error(node, `${name} is missing @${tagName}`, "missing-tag");
+    }
+  }
+
+  const count = node.children.length;
+  if (count < (schema.minChildren ?? 0) || count > (schema.maxChildren ?? Infinity)) {
+    const expected = stringFromCount(schema.minChildren ?? 0, schema.maxChildren ?? Infinity, "child", "children");
+    error(node, `${name} must have ${expected}, but has ${count}`, "bad-child-count");
+  }
+  for (const childName of schema.requiredChildren ?? []) {
+    if (!node.childFromString(childName)) {
+      error(node, `${name} is missing "${childName}"`, "missing-child");
+    }
+  }
+  for (const child of node.children) {
+    const childSchema = (schema.children && recordValue(schema.children, child.string)) ?? schema.otherChildren;
+    if (childSchema === false) {
+      error(child, `${describeNode(child)} is not allowed in ${name}`, "unknown-child");
+    } else if (childSchema) {
+      validateNode(child, childSchema, errors);
+    }
+  }
+}
+
+function validateTag(tag: Node, schema: TagSchema, errors: ParseError[]) {
+  const min = schema.minArgs ?? 0;
+  const max = schema.maxArgs ?? Infinity;
+  const count = tag.children.length;
+  if (count < min || count > max) {
+    const expected = stringFromCount(min, max, "argument", "arguments");
+    errors.push(errorFromNode(tag, `@${tag.string} takes ${expected}, but got ${count}`, "bad-tag-arguments"));
+  }
+  if (schema.argLabelKinds !== undefined) {
+    for (const arg of tag.children) {
+      if (!(arg.flags & schema.argLabelKinds)) {
+        const expected = stringFromLabelKinds(schema.argLabelKinds);
+        errors.push(errorFromNode(arg, `the arguments of @${tag.string} must have labels of kind ${expected}`, "bad-tag-arguments"));
+      }
+    }
+  }
+}
+
+function describeNode(node: Node): string {
+  switch (node.kind) {
+    case NodeKind.File: return node.string ? `file "${node.string}"` : "the file";
+    case NodeKind.Tag: return `@${node.string}`;
+    default: return node.string ? `"${node.string}"` : "anonymous list";
+  }
+}
+
+function delimiterStyleFromNodeFlags(flags: NodeFlags): "braces" | "parens" | "brackets" | "none" {
+  if (flags & NodeFlags.HasBraceLeft) {
+    return "braces";
+  } else if (flags & NodeFlags.HasParenLeft) {
+    return "parens";
+  } else if (flags & NodeFlags.HasBracketLeft) {
+    return "brackets";
+  }
+  return "none";
+}
+
+function stringFromLabelKinds(kinds: NodeFlags): string {
+  return stringListFromNodeFlags(kinds & NodeFlags.MaskLabelKind).join(" or ");
+}
+
+function stringFromCount(min: number, max: number, singular: string, plural: string): string {
+  const noun = (n: number) => n === 1 ? singular : plural;
+  if (min === max) {
+    return `exactly ${min} ${noun(min)}`;
+  } else if (max === Infinity) {
+    return `at least ${min} ${noun(min)}`;
+  } else if (min === 0) {
+    return `at most ${max} ${noun(max)}`;
+  }
+  return `${min} to ${max} ${plural}`;
+}
+
+function recordValue<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+/**
+ * The result of converting a node to a value. Exactly one of `value` and `error` is set.
+ */
+export class ValueResult<T> {
+  value: T | undefined;
+  error: ParseError | undefined;
+
+  constructor(value: T | undefined, error: ParseError | undefined = undefined) {
+    this.value = value;
+    this.error = error;
+  }
+}
 
-    const openerOffset = this.offset;
-    const opener = this.consume(TokenKind.Reserved, t => "([{".includes(t.string));
-    if (!opener) {
-      this.debug("no list");
-      return [undefined, 0];
-    }
-    switch (opener.string) {
-      case "(": parentFlags |= NodeFlags.HasParenLeft; break;
-      case "[": parentFlags |= NodeFlags.HasBracketLeft; break;
-      case "{": parentFlags |= NodeFlags.HasBraceLeft; break;
-    }
-        
-    const children = this.parseExplicitChildren();
+function valueError<T>(node: Node, message: string, code: ParseErrorCode): ValueResult<T> {
+  return new ValueResult<T>(undefined, errorFromNode(node, message, code));
+}
 
-    const closer = this.consume(TokenKind.Reserved, t => ")]}".includes(t.string));
-    if (!closer) {
-      this.error("List was not terminated", openerOffset);
-      return [undefined, 0];
+/**
+ * Converts a numeric node to a number. Supports decimal integers and floats with exponents, hex
+ * ("0x"), binary ("0b"), and octal ("0o") integers, a leading "-", and "_" between digits, e.g.
+ * `1_000`. Integers too large to be represented exactly are an error; use nodeToBigInt for those.
+ */
+export function nodeToNumber(node: Node): ValueResult<number> {
+  const result = numericFromNode(node);
+  if (result.error || result.value === undefined) {
+    return new ValueResult<number>(undefined, result.error);
+  }
+  const value = result.value;
+  if (typeof value !== "number") {
+    // parseInt is exact up to MAX_SAFE_INTEGER, and anything past it parses to an unsafe number.
+    const magnitude = parseInt(value.digits, value.radix);
+    if (!Number.isSafeInteger(magnitude)) {
+      return valueError(node, `"${node.string}" is too large to be represented exactly as a number`, "bad-number");
     }
+    return new ValueResult(value.negative ? -magnitude : magnitude);
+  }
+  return new ValueResult(value);
+}
 
-    const isBraced = opener.string === "{" && closer.string === "}";
-    const isBracketed = (
-      "([".includes(opener.string)
-            && ")]".includes(closer.string)
-    );
-    if (!(isBraced || isBracketed)) {
-      this.error(`"${opener.string}" and "${closer.string}" cannot be used together`, openerOffset);
-    }
+/**
+ * Converts a numeric node to a BigInt. Accepts the same integers as nodeToNumber, but not floats.
+ * This is the only function that needs BigInt support from the JS engine.
+ */
+export function nodeToBigInt(node: Node): ValueResult<bigint> {
+  const result = numericFromNode(node);
+  if (result.error || result.value === undefined) {
+    return new ValueResult<bigint>(undefined, result.error);
+  }
+  const value = result.value;
+  if (typeof value === "number") {
+    return valueError(node, `"${node.string}" is not an integer`, "bad-number");
+  }
+  const prefix = { 2: "0b", 8: "0o", 10: "", 16: "0x" }[value.radix];
+  const magnitude = BigInt(`${prefix}${value.digits}`);
+  return new ValueResult(value.negative ? -magnitude : magnitude);
+}
 
-    switch (closer.string) {
-      case ")": parentFlags |= NodeFlags.HasParenRight; break;
-      case "]": parentFlags |= NodeFlags.HasBracketRight; break;
-      case "}": parentFlags |= NodeFlags.HasBraceRight; break;
-    }
+// An integer from a numeric node, kept as digits so that it can be converted to a number or a
+// BigInt without losing precision first.
+interface IntegerDigits {
+  negative: boolean;
+  radix: 2 | 8 | 10 | 16;
+  digits: string;
+}
 
-    return [children, parentFlags];
+/**
+ * Parses a numeric node's string. Integers come back as digits and floats as numbers, so that
+ * callers can check the range.
+ */
+function numericFromNode(node: Node): ValueResult<number | IntegerDigits> {
+  if (!(node.flags & NodeFlags.Numeric)) {
+    return valueError(node, `expected a number, but got ${describeNode(node)}`, "bad-number");
   }
 
-  /**
-   * Grammar:
-   * 
-   *     explicit-children = [whitespace-all] [
-   *                           node [whitespace-all] [SEPARATOR]
-   *                           explicit-children
-   *                         ]
-   * 
-   * Since this part of the grammar only occurs within `explicit-list` and `file`, this function
-   * will exit when it sees either a closing delimiter or the end of the token stream. It will
-   * not consume the final delimiter, if any, so that `_parseExplicitList` can consume it.
-   */
-  parseExplicitChildren(): Node[] {
-    const result: Node[] = [];
+  const negative = node.string.startsWith("-");
+  const text = negative ? node.string.slice(1) : node.string;
 
-    // Early out if empty
-    let commentToken = this.consumeWhitespaceAll();
-    const endDelimiter = this.check(TokenKind.Reserved, t => ")]}".includes(t.string));
-    if (endDelimiter || this.done()) {
-      return result;
+  const prefixed = text.match(/^0([xXbBoO])(.*)$/);
+  if (prefixed) {
+    const [name, digit, radix] = ({
+      x: ["hexadecimal", "[0-9a-fA-F]", 16],
+      b: ["binary", "[01]", 2],
+      o: ["octal", "[0-7]", 8],
+    } as const)[prefixed[1].toLowerCase() as "x" | "b" | "o"];
+    if (!new RegExp(`^${digit}+(_${digit}+)*$`).test(prefixed[2])) {
+      return valueError(node, `"${node.string}" is not a valid ${name} number`, "bad-number");
     }
+    return new ValueResult<number | IntegerDigits>({ negative, radix, digits: prefixed[2].replace(/_/g, "") });
+  }
 
-    let nextNodeFlags: NodeFlags = 0;
-    for (const _ of forever()) {
-      const node = this.parseNode(commentToken);
-      if (!node) {
-        break;
-      }
-      node.flags |= nextNodeFlags;
-      nextNodeFlags = 0;
-      result.push(node); // this is JS, so we can continue to modify node after pushing it
+  if (!/^[0-9]+(_[0-9]+)*(\.([0-9]+(_[0-9]+)*)?)?([eE][+-]?[0-9]+(_[0-9]+)*)?$/.test(text)) {
+    return valueError(node, `"${node.string}" is not a valid number`, "bad-number");
+  }
+  const digits = text.replace(/_/g, "");
+  if (!/[.eE]/.test(digits)) {
+    return new ValueResult<number | IntegerDigits>({ negative, radix: 10, digits });
+  }
+  const value = Number(digits);
+  if (value === Infinity) {
+    return valueError(node, `"${node.string}" is too large to be represented as a number`, "bad-number");
+  }
+  return new ValueResult<number | IntegerDigits>(negative ? -value : value);
+}
 
-      this.consumeWhitespaceAll();
-      const separator = this.consume(TokenKind.Reserved, t => ",;".includes(t.string));
-      if (separator) {
-        switch (separator.string) {
-          case ",": {
-            node.flags |= NodeFlags.IsBeforeComma;
-            nextNodeFlags |= NodeFlags.IsAfterComma;
-          } break;
-          case ";": {
-            node.flags |= NodeFlags.IsBeforeSemicolon;
-            nextNodeFlags |= NodeFlags.IsAfterSemicolon;
-          } break;
-        }
-      }
+/**
+ * Converts a node's label to a string. String literals have their escape sequences decoded (C's,
+ * plus "\`", "\xHH", and "\u{H...}"), and triple-delimited strings have their indentation
+ * stripped: a first or last line with only whitespace is removed, and then the indentation
+ * shared by all non-blank lines. Other labels are returned as they are.
+ */
+export function nodeToString(node: Node): ValueResult<string> {
+  if (node.string === "" && !(node.flags & NodeFlags.MaskLabelKind)) {
+    return valueError(node, `expected a string, but got ${describeNode(node)}`, "bad-string");
+  }
+  if (!(node.flags & NodeFlags.StringLiteral)) {
+    return new ValueResult(node.string);
+  }
 
-      // Done with that node, now either start the next or bail
-      commentToken = this.consumeWhitespaceAll();
-      const endDelimiter = this.check(TokenKind.Reserved, t => ")]}".includes(t.string));
-      if (endDelimiter || this.done()) {
-        break;
+  const text = node.flags & NodeFlags.StringTriplet ? stripIndentation(node.string) : node.string;
+  let out = "";
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== "\\") {
+      out += text[i];
+      continue;
+    }
+
+    const escape = text.slice(i, i + 2);
+    const simple: Record<string, string | undefined> = {
+      "\\\\": "\\", "\\\"": "\"", "\\'": "'", "\\`": "`",
+      "\\n": "\n", "\\r": "\r", "\\t": "\t", "\\0": "\0",
+    };
+    const hex = text.slice(i).match(/^\\x([0-9a-fA-F]{2})|^\\u\{([0-9a-fA-F]{1,6})\}/);
+    const replacement = simple[escape];
+    if (replacement !== undefined) {
+      out += replacement;
+      i += 1;
+    } else if (hex) {
+      const codePoint = parseInt(escape === "\\x" ? hex[1] : hex[2], 16);
+      if (codePoint > 0x10FFFF) {
+        return valueError(node, `"${hex[0]}" is not a valid code point`, "bad-string");
       }
+      out += String.fromCodePoint(codePoint);
+      i += hex[0].length - 1;
+    } else {
+      return valueError(node, `unknown escape sequence "${sanitize(escape)}" in string`, "bad-string");
     }
+  }
+  return new ValueResult(out);
+}
 
-    return result;
+function stripIndentation(text: string): string {
+  const lines = text.split("\n");
+  if (lines.length === 1) {
+    return text;
+  }
+  const isBlank = (line: string) => /^[ \t\r]*$/.test(line);
+  if (isBlank(lines[0])) {
+    lines.shift();
+  }
+  if (lines.length > 0 && isBlank(lines[lines.length - 1])) {
+    lines.pop();
   }
 
-  /**
-   * Grammar:
-   * 
-   *     implicit-list     = implicit-children (SEPARATOR / NEWLINE)
-   *     implicit-children = node [whitespace-line] [implicit-children]
-   * 
-   * We parse the two together in a single function for simplicity.
-   */
-  parseImplicitList(preComment: Token | undefined): Node[] {
-    this.debug("parseImplicitList");
+  const indents = lines.filter(line => !isBlank(line)).map(line => line.length - line.replace(/^\s+/, "").length);
+  const indent = Math.min(...indents);
+  return lines.map(line => isBlank(line) ? "" : line.slice(indent)).join("\n");
+}
 
-    const result: Node[] = [];
-    let commentToken = preComment;
-    for (const _ of forever()) {
-      const node = this.parseNode(commentToken);
-      if (!node) {
-        this.error("expected a node");
-        break;
-      }
-      result.push(node);
+/**
+ * Converts a `true` or `false` identifier to a boolean.
+ */
+export function nodeToBoolean(node: Node): ValueResult<boolean> {
+  if (node.flags & NodeFlags.Identifier && (node.string === "true" || node.string === "false")) {
+    return new ValueResult(node.string === "true");
+  }
+  return valueError(node, `expected true or false, but got ${describeNode(node)}`, "bad-boolean");
+}
 
-      commentToken = this.consumeWhitespaceLine();
+export type JSONValue = null | boolean | number | string | JSONValue[] | { [key: string]: JSONValue };
 
-      // Separators and newlines end the current implicit list.
-      const nextIsSeparator = this.check(TokenKind.Reserved, t => ",;".includes(t.string));
-      const nextIsNewline = this.check(TokenKind.Newline);
-      if (nextIsSeparator || nextIsNewline) {
-        this.consume();
-        break;
-      }
+/**
+ * How toJSON and fromJSON map between nodes and JSON.
+ *
+ * "lossless" maps every node to an object, `{"label": ..., "flags": [...], "tags": [...],
+ * "children": [...]}`, where flags are names from nodeFlagNames, and `flags`, `tags`,
+ * `children`, `prevComment`, and `nextComment` are left out when empty. Anonymous lists have an
+ * empty label.
+ *
+ * "plain" maps nodes to plain data and drops tags, flags, and comments:
+ *
+ * - A list of children becomes an object if every child is named (`name: value`, i.e. has a
+ *   label and a list) and the names are unique. Otherwise it becomes an array, in which named
+ *   children become single-key objects.
+ * - The value of `name: x`, with a single undelimited child, is the value of `x`. Any other
+ *   list, including an anonymous list, maps to an object or array as above; an empty list is
+ *   `{}` if it has braces and `[]` otherwise.
+ * - Numeric labels become numbers, `true`, `false`, and `null` identifiers become those values,
+ *   string literals have their escapes decoded, and other labels stay strings.
+ *
+ * In both mappings, a File node becomes its list of children, and a Project node becomes an
+ * object from filenames to files.
+ */
+export type JSONMapping = "lossless" | "plain";
 
-      // Alternatively, we may encounter an explicit set closer, which must belong to a parent
-      // list. Just bail.
-      if (this.check(TokenKind.Reserved, t => ")]}".includes(t.string))) {
-        break;
-      }
+/**
+ * Converts a node to JSON-compatible data, using the given mapping.
+ */
+export function toJSON(node: Node, mapping: JSONMapping = "plain"): JSONValue {
+  if (node.kind === NodeKind.Project) {
+    const files: Record<string, JSONValue> = {};
+    for (const file of node.children) {
+      files[file.string] = toJSON(file, mapping);
     }
+    return files;
+  }
+  if (mapping === "lossless") {
+    return node.kind === NodeKind.File ? node.children.map(losslessJSONFromNode) : losslessJSONFromNode(node);
+  }
+  return node.kind === NodeKind.File ? plainJSONFromList(node) : plainJSONFromElement(node);
+}
 
-    return result;
+function losslessJSONFromNode(node: Node): JSONValue {
+  const out: Record<string, JSONValue> = { label: node.string };
+  const flags = stringListFromNodeFlags(node.flags);
+  if (flags.length > 0) {
+    out.flags = flags;
+  }
+  if (node.tags.length > 0) {
+    out.tags = node.tags.map(losslessJSONFromNode);
+  }
+  if (node.children.length > 0) {
+    out.children = node.children.map(losslessJSONFromNode);
+  }
+  if (node.prevComment) {
+    out.prevComment = node.prevComment;
+  }
+  if (node.nextComment) {
+    out.nextComment = node.nextComment;
   }
+  return out;
 }
 
-export enum GenerateFlags {
-  Tags         = 1 << 0,
-  TagArguments = 1 << 1,
-  Children     = 1 << 2,
-  Comments     = 1 << 3,
-  NodeKind     = 1 << 4,
-  NodeFlags    = 1 << 5,
-  Location     = 1 << 6,
-    
-  Tree = (
-    Tags
-    | TagArguments
-    | Children
-  ),
-  All = 0xffffffff,
+function nodeIsPair(node: Node): boolean {
+  const hasLabel = node.string !== "" || (node.flags & NodeFlags.MaskLabelKind) !== 0;
+  return hasLabel && (node.children.length > 0 || (node.flags & NodeFlags.MaskSetDelimiters) !== 0);
 }
 
-export function debugDumpFromNode(
-  node: Node,
-  indent: number,
-  indentString: string,
-  flags: GenerateFlags,
-): string {
-  let out = "";
+function plainJSONFromList(list: Node): JSONValue {
+  if (list.children.length === 0) {
+    return list.flags & NodeFlags.HasBraceLeft ? {} : [];
+  }
+  const keys = list.children.map(child => nodeToString(child).value ?? child.string);
+  if (list.children.every(nodeIsPair) && new Set(keys).size === keys.length) {
+    const out: Record<string, JSONValue> = {};
+    for (const [i, child] of list.children.entries()) {
+      out[keys[i]] = plainJSONFromValue(child);
+    }
+    return out;
+  }
+  return list.children.map(plainJSONFromElement);
+}
 
-  function printIndent() {
-    for (let i = 0; i < indent; i++) {
-      out += indentString;
+function plainJSONFromElement(node: Node): JSONValue {
+  if (nodeIsPair(node)) {
+    return { [nodeToString(node).value ?? node.string]: plainJSONFromValue(node) };
+  }
+  if (node.flags & NodeFlags.MaskSetDelimiters) {
+    return plainJSONFromList(node);
+  }
+
+  if (node.flags & NodeFlags.Numeric) {
+    return nodeToNumber(node).value ?? node.string;
+  }
+  if (node.flags & NodeFlags.Identifier) {
+    switch (node.string) {
+      case "true": return true;
+      case "false": return false;
+      case "null": return null;
     }
   }
+  return nodeToString(node).value ?? node.string;
+}
 
-  if (flags & GenerateFlags.Comments && node.comment) {
-    printIndent();
-    out += "/*\n";
-    printIndent();
-    out += `${node.comment}\n`;
-    printIndent();
-    out += "*/\n";
+function plainJSONFromValue(pair: Node): JSONValue {
+  if (pair.children.length === 1 && !(pair.flags & NodeFlags.MaskSetDelimiters)) {
+    return plainJSONFromElement(pair.children[0]);
   }
+  return plainJSONFromList(pair);
+}
 
-  // tags
-  if (flags & GenerateFlags.Tags) {
-    for (const tag of node.tags) {
-      printIndent();
-      out += `@${tag.string}`;
-      if (flags & GenerateFlags.TagArguments && tag.children.length > 0) {
-        const tagArgIndent = indent + 1 + tag.string.length + 1;
-        out += "(";
-        for (const [i, child] of tag.children.entries()) {
-          if (i > 0) {
-            out += ",\n";
-          }
-          const childIndent = i === 0 ? 0 : tagArgIndent;
-          out += debugDumpFromNode(child, childIndent, " ", flags);
-        }
-        out += ")\n";
-      } else {
-        out += "\n";
-      }
+/**
+ * Converts JSON data to a File node, using the given mapping (see JSONMapping). In the "plain"
+ * mapping, objects become brace lists of `key: value` children, arrays become bracket lists, and
+ * a top-level scalar becomes a file with a single node. In the "lossless" mapping, the value must
+ * be an array of node objects.
+ *
+ * Data that cannot be converted is reported with the "bad-json" code and skipped. Since there is
+ * no source, the messages include a path to the offending value, like `$.a[2]`.
+ */
+export function fromJSON(value: JSONValue, mapping: JSONMapping = "plain"): ParseResult {
+  const ctx = new ParseContext("", "");
+  const file = new Node(NodeKind.File, "", "", 0);
+  if (mapping === "lossless") {
+    if (Array.isArray(value)) {
+      file.children = nodesFromLosslessJSON(value, "$", ctx);
+    } else {
+      ctx.error("$: expected an array of nodes", "bad-json", 0);
     }
+  } else if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    file.children = pairsFromPlainJSON(value, "$", ctx);
+  } else if (Array.isArray(value)) {
+    file.children = elementsFromPlainJSON(value, "$", ctx);
+  } else {
+    file.children = elementsFromPlainJSON([value], "$", ctx);
   }
+  linkNodes(file, file.children);
+  return new ParseResult(file, [ctx]);
+}
 
-  // node kind
-  if (flags & GenerateFlags.NodeKind) {
-    printIndent();
-    out += `// kind: "${NodeKind[node.kind]}"\n`;
+function nodesFromLosslessJSON(values: JSONValue[], path: string, ctx: ParseContext): Node[] {
+  const nodes: Node[] = [];
+  for (const [i, value] of values.entries()) {
+    const node = nodeFromLosslessJSON(value, `${path}[${i}]`, ctx);
+    if (node) {
+      nodes.push(node);
+    }
   }
+  return nodes;
+}
 
-  // node flags
-  if (flags & GenerateFlags.NodeFlags) {
-    printIndent();
-    const flagsStr = stringListFromNodeFlags(node.flags).join("|");
-    out += `// flags: "${flagsStr}"\n`;
+function nodeFromLosslessJSON(value: JSONValue, path: string, ctx: ParseContext, kind = NodeKind.Main): Node | undefined {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    ctx.error(`${path}: expected a node object`, "bad-json", 0);
+    return undefined;
   }
 
-  // location
-  // TODO
+  const fields: Partial<Record<string, JSONValue>> = value;
+  const { label, flags, tags, children, prevComment, nextComment } = fields;
+  if (typeof label !== "string") {
+    ctx.error(`${path}.label: expected a string`, "bad-json", 0);
+    return undefined;
+  }
+  const node = new Node(kind, label, label, 0);
 
-  // name of node
-  if (node.string) {
-    printIndent();
-    if (node.kind === NodeKind.File) {
-      out += `\`${node.string}\``;
+  if (flags !== undefined) {
+    if (!Array.isArray(flags)) {
+      ctx.error(`${path}.flags: expected an array of flag names`, "bad-json", 0);
     } else {
-      out += node.string; // TODO: in ryan's code, this is the raw string instead??
+      for (const [i, name] of flags.entries()) {
+        const flagName = nodeFlagNames.find(flagName => flagName === name);
+        if (flagName) {
+          node.flags |= NodeFlags[flagName];
+        } else {
+          ctx.error(`${path}.flags[${i}]: unknown node flag ${JSON.stringify(name)}`, "bad-json", 0);
+        }
+      }
     }
   }
-
-  // children list
-  if (flags & GenerateFlags.Children && node.children.length > 0) {
-    if (node.string) {
-      out += ":\n";
+  for (const [key, list] of [["tags", tags], ["children", children]] as const) {
+    if (list === undefined) {
+      continue;
     }
-    printIndent();
-    out += "{\n";
-    for (const child of node.children) {
-      out += debugDumpFromNode(child, indent + 1, indentString, flags);
-      out += ",\n";
+    if (!Array.isArray(list)) {
+      ctx.error(`${path}.${key}: expected an array of nodes`, "bad-json", 0);
+      continue;
+    }
+    const nodes = list.map((v, i) => nodeFromLosslessJSON(v, `${path}.${key}[${i}]`, ctx, key === "tags" ? NodeKind.Tag : NodeKind.Main));
+    node[key] = nodes.filter((n): n is Node => n !== undefined);
+  }
+  for (const [key, comment] of [["prevComment", prevComment], ["nextComment", nextComment]] as const) {
+    if (typeof comment === "string") {
+      node[key] = comment;
+    } else if (comment !== undefined) {
+      ctx.error(`${path}.${key}: expected a string`, "bad-json", 0);
     }
-    printIndent();
-    out += "}";
   }
 
-  return out;
+  linkNodes(node, node.tags);
+  linkNodes(node, node.children);
+  return node;
 }
 
-function stringListFromNodeFlags(flags: NodeFlags): string[] {
-  const names: string[] = [];
-  for (const flagName of nodeFlagNames) {
-    if (flags & NodeFlags[flagName]) {
-      names.push(flagName);
+function pairsFromPlainJSON(object: Record<string, JSONValue>, path: string, ctx: ParseContext): Node[] {
+  const nodes: Node[] = [];
+  for (const [key, value] of Object.entries(object)) {
+    const node = makeLabel(key);
+    const valuePath = `${path}.${key}`;
+    if (value !== null && typeof value === "object") {
+      const list = listFromPlainJSON(value, valuePath, ctx);
+      node.flags |= list.flags;
+      node.children = list.children;
+    } else {
+      const leaf = leafFromPlainJSON(value, valuePath, ctx);
+      node.children = leaf ? [leaf] : [];
     }
+    linkNodes(node, node.children);
+    nodes.push(node);
   }
-  return names;
+  return nodes;
+}
+
+function elementsFromPlainJSON(values: JSONValue[], path: string, ctx: ParseContext): Node[] {
+  const nodes: Node[] = [];
+  for (const [i, value] of values.entries()) {
+    const elementPath = `${path}[${i}]`;
+    const node = value !== null && typeof value === "object"
+      ? listFromPlainJSON(value, elementPath, ctx)
+      : leafFromPlainJSON(value, elementPath, ctx);
+    if (node) {
+      nodes.push(node);
+    }
+  }
+  return nodes;
+}
+
+function listFromPlainJSON(value: JSONValue[] | Record<string, JSONValue>, path: string, ctx: ParseContext): Node {
+  const list = new Node(NodeKind.Main, "", "", 0);
+  if (Array.isArray(value)) {
+    list.flags |= NodeFlags.HasBracketLeft | NodeFlags.HasBracketRight;
+    list.children = elementsFromPlainJSON(value, path, ctx);
+  } else {
+    list.flags |= NodeFlags.HasBraceLeft | NodeFlags.HasBraceRight;
+    list.children = pairsFromPlainJSON(value, path, ctx);
+  }
+  linkNodes(list, list.children);
+  return list;
 }
 
-function* forever() {
-  for (let i = 0; i < 10000; i++) {
-    yield true;
+function leafFromPlainJSON(value: null | boolean | number | string, path: string, ctx: ParseContext): Node | undefined {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      ctx.error(`${path}: ${value} cannot be represented in Metadesk`, "bad-json", 0);
+      return undefined;
+    }
+    return makeLabel(value);
+  }
+  if (typeof value === "string") {
+    return makeString(value);
   }
-  throw new Error("a loop ran on too long");
+  return makeNode(String(value));
 }
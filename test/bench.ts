@@ -0,0 +1,81 @@
+// Parser benchmarks on large generated inputs. Run with `npm run bench`. Numbers are only
+// comparable between runs on the same machine.
+
+import { parse, tokenize } from "../src/metadesk";
+
+const MB = 1024 * 1024;
+
+interface Benchmark {
+  name: string;
+  source: string;
+}
+
+function repeatUntil(size: number, chunk: (i: number) => string): string {
+  const parts: string[] = [];
+  let length = 0;
+  for (let i = 0; length < size; i++) {
+    const part = chunk(i);
+    parts.push(part);
+    length += part.length;
+  }
+  return parts.join("");
+}
+
+const benchmarks: Benchmark[] = [
+  {
+    // Typical hand-written declarations: tags, comments, and small nested lists.
+    name: "structs",
+    source: repeatUntil(4 * MB, i => [
+      `// Struct number ${i}`,
+      `@doc("A generated struct") @id(${i}) Struct${i}: {`,
+      "  x: f32, y: f32, z: f32,",
+      `  name: "struct ${i}", // its name`,
+      `  flags: [0x${i.toString(16)}, 0b1010, 1e-3]`,
+      "}",
+      "",
+    ].join("\n")),
+  },
+  {
+    // One enormous list on a single line, like a generated data table.
+    name: "long line",
+    source: `numbers: {${repeatUntil(2 * MB, i => `${i}, `)}}`,
+  },
+  {
+    // Mostly big tokens, so most of the time goes to scanning within them.
+    name: "strings and comments",
+    source: repeatUntil(4 * MB, i => `/* block ${"*".repeat(200)} */\ns${i}: """\n${"text ".repeat(100)}\n"""\n`),
+  },
+  {
+    // Implicit lists and symbols, which stress newline handling.
+    name: "implicit lists",
+    source: repeatUntil(4 * MB, i => `rule${i}: a b c -> d + e * f\n`),
+  },
+];
+
+function time(f: () => void): number {
+  const start = process.hrtime.bigint();
+  f();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+// The best of a few runs, which is less noisy than the mean.
+function bestOf(runs: number, f: () => void): number {
+  let best = Infinity;
+  for (let i = 0; i < runs; i++) {
+    best = Math.min(best, time(f));
+  }
+  return best;
+}
+
+function throughput(bytes: number, ms: number): string {
+  return `${(bytes / MB / (ms / 1000)).toFixed(1)} MB/s`.padStart(12);
+}
+
+const runs = Number(process.argv[2] ?? "3");
+for (const { name, source } of benchmarks) {
+  const tokenizeMs = bestOf(runs, () => tokenize(source));
+  const parseMs = bestOf(runs, () => parse(source));
+
+  const size = `${(source.length / MB).toFixed(1)} MB`;
+  console.log(`${name.padEnd(24)} ${size.padStart(8)}  tokenize ${throughput(source.length, tokenizeMs)}  parse ${throughput(source.length, parseMs)}`);
+}
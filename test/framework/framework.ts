@@ -56,7 +56,8 @@ export class TestContext {
   }
 }
 
-type TestFunc = (t: TestContext) => void;
+// Tests can be async. They still run one at a time.
+type TestFunc = (t: TestContext) => void | Promise<void>;
 
 const tests: TestCase[] = [];
 
@@ -70,7 +71,7 @@ export function test(name: string, func: TestFunc) {
   });
 }
 
-function runTests(tests: TestCase[], name?: string): boolean {
+async function runTests(tests: TestCase[], name?: string): Promise<boolean> {
   let success = true;
   for (const test of tests) {
     const t = new TestContext(test);
@@ -84,7 +85,7 @@ function runTests(tests: TestCase[], name?: string): boolean {
     };
 
     try {
-      test.func(t);
+      await test.func(t);
     } catch (e) {
       test.logs.push({
         err: e instanceof Error ? e : new Error(JSON.stringify(e)),
@@ -95,7 +96,7 @@ function runTests(tests: TestCase[], name?: string): boolean {
 
     console = oldConsole;
   
-    const subSuccess = runTests(test.children, name);
+    const subSuccess = await runTests(test.children, name);
     if (!subSuccess) {
       test.success = false;
     }
@@ -108,8 +109,10 @@ function runTests(tests: TestCase[], name?: string): boolean {
 }
 
 export function run(name?: string) {
-  const success = runTests(tests, name);
-  
+  void runTests(tests, name).then(success => printResults(success));
+}
+
+function printResults(success: boolean) {
   function printTest(test: TestCase, indent: number) {
     const tab = "  ".repeat(indent);
     const emoji = test.success ? "✅" : "❌";
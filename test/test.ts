@@ -1,7 +1,9 @@
-import { GenerateFlags, debugDumpFromNode, getToken, parse, Token, TokenKind, Node, tokenize, NodeFlags, nodeFlagNames } from "../src/metadesk";
-import { run, test, assertEqual, assertLength, TestContext, assertTrue } from "./framework";
+import { GenerateFlags, debugDumpFromNode, getToken, parse, Token, TokenKind, Node, tokenize, NodeFlags, nodeFlagNames, MatchFlags, nodeMatch, nodeDeepMatch, codeLocFromNode, codeLocFromOffset, stringFromCodeLoc, parseFile, parseProject, NodeKind, ProjectLoader, Severity, errorFromNode, ParseResult, print, printLossless, ExprOperatorTable, ExprOperatorKind, Associativity, Expr, ExprKind, parseExpr, NodeSchema, validate, nodeToNumber, nodeToBigInt, nodeToString, nodeToBoolean, toJSON, fromJSON, StreamParser, parseStream, ParseError, WalkFlags, WalkAction, walk, preorder, postorder, transform, makeNode, makeLabel, makeString, pushChild, insertChild, removeChild, pushTag, replaceNode, deepCopy, Selector, query, queryOne, missingComments } from "../src/metadesk";
+import { CLIHost, main } from "../src/cli";
+import { LanguageServer, Message, MessageReader, NotificationMessage, ResponseMessage, frameFromMessage } from "../src/lsp";
+import { run, test, assertEqual, assertLength, TestContext, assertTrue, assertFalse } from "./framework";
 
-let str = `
+const str = `
 @include("<frc/Joystick.h>")
 io: {
 	@class("frc::Joystick")
@@ -145,6 +147,14 @@ test("Lexer", t => {
 	tokenMatch(tokens[12], "123abc", TokenKind.Numeric);
 	tokenMatch(tokens[13], " ", TokenKind.Whitespace);
 	tokenMatch(tokens[14], "+-*", TokenKind.Symbol);
+
+	// Tokens are lexed in place, but getToken still reports what comes after the token.
+	const first = getToken("\"a\" b");
+	assertEqual(t, first?.string, "a");
+	assertEqual(t, first?.remaining, " b");
+	assertEqual(t, getToken(""), undefined);
+	assertEqual(t, tokens[12].offset, 31);
+	assertEqual(t, tokens[12].remaining, " +-*");
 });
 
 test("Empty Sets", t => {
@@ -360,4 +370,1553 @@ test("Unscoped Subtleties", t => {
   });
 });
 
+test("Tree Links", t => {
+  t.test("children", t => {
+    const res = parse("a: {x y z} b");
+    const [a, b] = res.node.children;
+    assertEqual(t, a.parent, res.node);
+    assertEqual(t, a.next, b);
+    assertEqual(t, b.prev, a);
+    assertEqual(t, a.prev, undefined);
+    assertEqual(t, b.next, undefined);
+
+    const [x, y, z] = a.children;
+    assertEqual(t, y.parent, a);
+    assertEqual(t, x.next, y);
+    assertEqual(t, z.prev, y);
+  });
+  t.test("tags and tag arguments", t => {
+    const node = parseSingleNode("@one @two(beep boop) foo");
+    const [one, two] = node.tags;
+    assertEqual(t, one.parent, node);
+    assertEqual(t, one.next, two);
+    assertEqual(t, two.prev, one);
+    assertEqual(t, two.children[0].parent, two);
+    assertEqual(t, two.children[0].next, two.children[1]);
+  });
+});
+
+test("Tree Navigation", t => {
+  const res = parse("a: {x y z}\nb: (@tag(arg) c)");
+  const a = res.node.children[0];
+
+  assertEqual(t, a.firstChild?.string, "x");
+  assertEqual(t, a.lastChild?.string, "z");
+  assertEqual(t, a.childFromString("y"), a.children[1]);
+  assertEqual(t, a.childFromString("nope"), undefined);
+  assertEqual(t, a.childFromIndex(2), a.children[2]);
+  assertEqual(t, a.childFromIndex(3), undefined);
+  assertEqual(t, a.children[2].indexFromNode(), 2);
+  assertEqual(t, res.node.children[1].indexFromNode(), 1);
+
+  const arg = res.node.children[1].children[0].tags[0].children[0];
+  assertEqual(t, arg.string, "arg");
+  assertEqual(t, arg.rootFromNode(), res.node);
+  assertEqual(t, [...arg.ancestors()].map(n => n.string).join(","), "tag,c,b,");
+  assertEqual(t, [...a.children[1].siblings()].map(n => n.string).join(","), "x,z");
+});
+
+test("Tag Queries", t => {
+  const res = parse(str);
+  const io = res.node.children[0];
+  const joystick = io.childFromString("Joystick");
+  if (!joystick) {
+    t.fail("Joystick not found");
+    return;
+  }
+
+  t.test("hasTag", t => {
+    assertTrue(t, io.hasTag("include"));
+    assertFalse(t, io.hasTag("class"));
+    assertTrue(t, joystick.hasTag("class"));
+    assertFalse(t, joystick.hasTag("CLASS"));
+    assertTrue(t, joystick.hasTag("CLASS", MatchFlags.CaseInsensitive));
+  });
+  t.test("tagFromString", t => {
+    const tag = joystick.tagFromString("class");
+    assertEqual(t, tag?.children[0].string, "frc::Joystick");
+    assertEqual(t, joystick.tagFromString("nope"), undefined);
+  });
+  t.test("tagArgFromIndex", t => {
+    const bool = joystick.children.find(n => n.hasTag("alias"));
+    assertEqual(t, bool?.string, "bool");
+    assertEqual(t, bool?.tagCount, 1);
+    assertEqual(t, bool?.tagArgFromIndex("alias", 0)?.string, "GetButtonHeld");
+    assertEqual(t, bool?.tagArgFromIndex("alias", 1), undefined);
+    assertEqual(t, bool?.tagArgFromIndex("nope", 0), undefined);
+  });
+  t.test("tagArgFromString", t => {
+    const node = parseSingleNode("@flags(Read, Write) foo");
+    assertEqual(t, node.tagArgFromString("flags", "Write"), node.tags[0].children[1]);
+    assertEqual(t, node.tagArgFromString("flags", "write"), undefined);
+    assertEqual(t, node.tagArgFromString("FLAGS", "write", MatchFlags.CaseInsensitive), node.tags[0].children[1]);
+  });
+  t.test("label kinds", t => {
+    const node = parseSingleNode("@\"doc\" @doc foo");
+    assertEqual(t, node.tagFromString("doc"), node.tags[0]);
+    assertEqual(t, node.tagFromString("doc", MatchFlags.LabelIdentifier), node.tags[1]);
+    assertEqual(t, node.tagFromString("doc", MatchFlags.LabelStringLiteral), node.tags[0]);
+    assertEqual(t, node.tagFromString("doc", MatchFlags.LabelNumeric), undefined);
+    assertEqual(t, node.tagFromString("doc", MatchFlags.FindLast), node.tags[1]);
+  });
+});
+
+test("Node Matching", t => {
+  function root(src: string): Node {
+    return parse(src).node;
+  }
+
+  t.test("strings and kinds", t => {
+    assertTrue(t, nodeMatch(parseSingleNode("foo"), parseSingleNode("foo")));
+    assertFalse(t, nodeMatch(parseSingleNode("foo"), parseSingleNode("bar")));
+    assertFalse(t, nodeMatch(parseSingleNode("foo"), parseSingleNode("FOO")));
+    assertTrue(t, nodeMatch(parseSingleNode("foo"), parseSingleNode("FOO"), MatchFlags.CaseInsensitive));
+    assertFalse(t, nodeMatch(parseSingleNode("@foo bar").tags[0], parseSingleNode("foo")));
+  });
+  t.test("children are only compared when requested", t => {
+    const a = parseSingleNode("foo: {a b c}");
+    const b = parseSingleNode("foo: {a b}");
+    assertTrue(t, nodeMatch(a, b));
+    assertFalse(t, nodeMatch(a, b, MatchFlags.Children));
+    assertFalse(t, nodeDeepMatch(a, b));
+  });
+  t.test("tags", t => {
+    const a = parseSingleNode("@tag(1) foo");
+    const b = parseSingleNode("@tag(2) foo");
+    const c = parseSingleNode("foo");
+    assertTrue(t, nodeMatch(a, c));
+    assertFalse(t, nodeMatch(a, c, MatchFlags.Tags));
+    assertTrue(t, nodeMatch(a, b, MatchFlags.Tags));
+    assertFalse(t, nodeMatch(a, b, MatchFlags.Tags|MatchFlags.TagArguments));
+  });
+  t.test("node flags", t => {
+    const a = root("a: (x, y)");
+    const b = root("a: [x; y]");
+    assertTrue(t, nodeDeepMatch(a, b));
+    assertFalse(t, nodeDeepMatch(a, b, MatchFlags.FlagsSetDelimiters));
+    assertFalse(t, nodeDeepMatch(a, b, MatchFlags.FlagsSeparators));
+    assertTrue(t, nodeDeepMatch(a, b, MatchFlags.FlagsStringDelimiters|MatchFlags.FlagsLabelKind));
+
+    const quoted = root("\"a\"");
+    const ticked = root("`a`");
+    const bare = root("a");
+    assertTrue(t, nodeDeepMatch(quoted, bare));
+    assertFalse(t, nodeDeepMatch(quoted, bare, MatchFlags.FlagsLabelKind));
+    assertTrue(t, nodeDeepMatch(quoted, ticked, MatchFlags.FlagsLabelKind));
+    assertFalse(t, nodeDeepMatch(quoted, ticked, MatchFlags.FlagsStringDelimiters));
+  });
+  t.test("whole trees", t => {
+    const a = root(str);
+    const b = root(str.replace(/\t/g, "  ").replace(/\/\/.*$/gm, ""));
+    const c = root(str.replace("GetTwist", "GetTwister"));
+    const all = MatchFlags.Tags|MatchFlags.TagArguments|MatchFlags.MaskNodeFlags;
+    assertTrue(t, nodeDeepMatch(a, b, all));
+    assertFalse(t, nodeDeepMatch(a, c, all));
+  });
+});
+
+test("Locations", t => {
+  t.test("codeLocFromOffset", t => {
+    const src = "ab\ncd\n\nef";
+    const locs = [0, 1, 2, 3, 6, 7, 9].map(offset => stringFromCodeLoc(codeLocFromOffset(src, offset, "test.mdesk")));
+    assertEqual(t, locs.join(" "), "test.mdesk:1:1 test.mdesk:1:2 test.mdesk:1:3 test.mdesk:2:1 test.mdesk:3:1 test.mdesk:4:1 test.mdesk:4:3");
+    assertEqual(t, stringFromCodeLoc(codeLocFromOffset(src, 4)), "2:2");
+  });
+  t.test("nodes", t => {
+    const res = parse("a: {\n  @tag(x) b\n}");
+    const a = res.node.children[0];
+    const b = a.children[0];
+    assertEqual(t, stringFromCodeLoc(a.loc), "1:1");
+    assertEqual(t, stringFromCodeLoc(a.endLoc), "3:2");
+    assertEqual(t, stringFromCodeLoc(b.loc), "2:3");
+    assertEqual(t, stringFromCodeLoc(b.tags[0].loc), "2:4");
+    assertEqual(t, stringFromCodeLoc(b.tags[0].children[0].loc), "2:8");
+    assertEqual(t, stringFromCodeLoc(codeLocFromNode(b.tags[0].children[0])), "2:8");
+    assertEqual(t, stringFromCodeLoc(res.node.endLoc), "3:2");
+  });
+  t.test("tokens", t => {
+    const tokens = tokenize("a\n  b", "test.mdesk");
+    assertEqual(t, tokens[3].string, "b");
+    assertEqual(t, tokens[3].offset, 4);
+    assertEqual(t, stringFromCodeLoc(tokens[3].loc), "test.mdesk:2:3");
+    assertEqual(t, stringFromCodeLoc(tokens[3].endLoc), "test.mdesk:2:4");
+  });
+  t.test("errors", t => {
+    const res = parse("a: {\n  b: (c}\n}");
+    assertLength(t, res.errors, 2);
+    assertEqual(t, stringFromCodeLoc(res.errors[0].loc), "2:6");
+    assertEqual(t, stringFromCodeLoc(res.errors[1].loc), "2:8");
+  });
+  t.test("debug dump", t => {
+    const res = parse("a\n  b");
+    const dump = debugDumpFromNode(res.node.children[1], 0, " ", GenerateFlags.Location);
+    assertEqual(t, dump, "// location: \"2:3\"\nb");
+  });
+});
+
+test("Files and Projects", t => {
+  function loaderFromFiles(files: Record<string, string>): ProjectLoader {
+    return path => path in files ? { filename: path, source: files[path] } : undefined;
+  }
+
+  t.test("parseFile", t => {
+    const res = parseFile("foo.mdesk", "a\n(b c]");
+    assertEqual(t, res.node.kind, NodeKind.File);
+    assertEqual(t, res.node.string, "foo.mdesk");
+    assertEqual(t, codeLocFromNode(res.node.children[0]).filename, "foo.mdesk");
+    assertEqual(t, res.errors.length, 0);
+    assertEqual(t, parseFile("foo.mdesk", "(b c}").errors[0].toString(), "foo.mdesk:1:1: \"(\" and \"}\" cannot be used together");
+  });
+  t.test("includes", t => {
+    const res = parseProject("main.mdesk", loaderFromFiles({
+      "main.mdesk": "@include(\"types.mdesk\") _\n@include(\"funcs.mdesk\") _\nmain",
+      "types.mdesk": "@include(\"common.mdesk\") _\ntypes",
+      "funcs.mdesk": "@include(\"common.mdesk\") _\nfuncs",
+      "common.mdesk": "common",
+    }));
+    assertEqual(t, res.node.kind, NodeKind.Project);
+    assertLength(t, res.errors, 0);
+    assertEqual(t, res.node.children.map(f => f.string).join(","), "main.mdesk,types.mdesk,common.mdesk,funcs.mdesk");
+    assertEqual(t, res.node.children[2].children[0].string, "common");
+    assertEqual(t, res.node.children[2].parent, res.node);
+    assertEqual(t, codeLocFromNode(res.node.children[2].children[0]).filename, "common.mdesk");
+  });
+  t.test("cycles", t => {
+    const res = parseProject("a.mdesk", loaderFromFiles({
+      "a.mdesk": "@include(\"b.mdesk\") _",
+      "b.mdesk": "\n@include(\"a.mdesk\") _",
+    }));
+    assertLength(t, res.node.children, 2);
+    if (assertLength(t, res.errors, 1)) {
+      assertEqual(t, res.errors[0].toString(), "b.mdesk:2:2: include cycle: a.mdesk -> b.mdesk -> a.mdesk");
+    }
+  });
+  t.test("missing files", t => {
+    const res = parseProject("a.mdesk", loaderFromFiles({
+      "a.mdesk": "@include(\"nope.mdesk\") _\n@include(nope) _",
+    }));
+    if (assertLength(t, res.errors, 2)) {
+      assertEqual(t, res.errors[0].toString(), "a.mdesk:1:2: could not load included file \"nope.mdesk\"");
+      assertEqual(t, res.errors[1].toString(), "a.mdesk:2:2: @include expects a single file name string");
+    }
+    const missingEntry = parseProject("nope.mdesk", loaderFromFiles({}));
+    assertEqual(t, missingEntry.errors[0].toString(), "nope.mdesk:1:1: could not load \"nope.mdesk\"");
+  });
+  t.test("custom include tag", t => {
+    const res = parseProject("main.mdesk", loaderFromFiles({
+      "main.mdesk": "@include(\"<frc/Joystick.h>\") @import(\"other.mdesk\") io",
+      "other.mdesk": "other",
+    }), { includeTag: "import" });
+    assertLength(t, res.errors, 0);
+    assertLength(t, res.node.children, 2);
+  });
+});
+
+test("Diagnostics", t => {
+  t.test("codes", t => {
+    const cases = [
+      ["(a", "unterminated-list"],
+      ["(a}", "mismatched-delimiters"],
+      ["@tag[a] b", "bad-tag-delimiter"],
+      ["@:", "bad-tag-label"],
+      [":", "expected-label"],
+    ] as const;
+    for (const [src, code] of cases) {
+      t.test(src, t => {
+        const res = parse(src);
+        assertTrue(t, res.hasErrors);
+        assertEqual(t, res.errors[0].code, code);
+        assertEqual(t, res.errors[0].severity, Severity.Error);
+      });
+    }
+  });
+  t.test("notes", t => {
+    const res = parse("(a}");
+    if (assertLength(t, res.errors, 2)) {
+      assertEqual(t, res.errors[1].severity, Severity.Note);
+      assertEqual(t, res.errors[1].offset, 2);
+      assertEqual(t, res.errors[1].toString(), "1:3: note: list was closed here");
+    }
+  });
+  t.test("user diagnostics", t => {
+    const res = parseFile("test.mdesk", "a\nb");
+    res.report(errorFromNode(res.node.children[1], "b is deprecated", "deprecated", Severity.Warning));
+    assertFalse(t, res.hasErrors);
+    if (assertLength(t, res.errors, 1)) {
+      assertEqual(t, res.errors[0].code, "deprecated");
+      assertEqual(t, res.errors[0].toString(), "test.mdesk:2:1: warning: b is deprecated");
+      assertEqual(t, res.fancyErrors()[0].split("\n")[0], "test.mdesk:2:1: WARNING: b is deprecated [deprecated]");
+    }
+    res.report(errorFromNode(res.node.children[0], "a is bad", "bad"));
+    assertTrue(t, res.hasErrors);
+  });
+});
+
+test("Node Kind Values", t => {
+  // Consumers store and compare these numbers, so new kinds must not shift the old ones.
+  assertEqual(t, NodeKind.File, 0);
+  assertEqual(t, NodeKind.Main, 1);
+  assertEqual(t, NodeKind.Tag, 2);
+});
+
+test("Lexer Errors", t => {
+  function codes(res: ParseResult): string {
+    return res.errors.map(err => `${err.code}@${err.offset}`).join(" ");
+  }
+
+  t.test("broken strings", t => {
+    const res = parse("a \"foo\nb: 'bar\nc");
+    assertEqual(t, codes(res), "broken-string@2 broken-string@10");
+    if (assertChildren(t, res.node, ["a", "foo", "b", "c"])) {
+      assertChildren(t, res.node.children[2], ["bar"]);
+    }
+  });
+  t.test("broken tag strings", t => {
+    const res = parse("@doc(\"\"\"oops) foo");
+    assertEqual(t, codes(res), "broken-string@5 unterminated-list@4 expected-label@17");
+  });
+  t.test("broken comments", t => {
+    assertEqual(t, codes(parse("a /* x /* y */ b")), "broken-comment@2");
+    assertEqual(t, codes(parse("a /* /* x */ /* y")), "broken-comment@13");
+    assertChildren(t, parse("a /* x /* y */ b").node, ["a"]);
+  });
+  t.test("stray characters", t => {
+    const res = parse("a # b \\ c é d 日本語\ne");
+    assertEqual(t, codes(res), "reserved-character@2 reserved-character@6 bad-character@10 bad-character@14");
+    assertEqual(t, res.errors[3].message, "unexpected characters \"日本語\"");
+    assertChildren(t, res.node, ["a", "b", "c", "d", "e"]);
+  });
+});
+
+test("Error Recovery", t => {
+  t.test("skips to the next separator", t => {
+    const res = parse("a: {x : y, z}\nb");
+    assertLength(t, res.errors, 1);
+    if (assertChildren(t, res.node, ["a", "b"])) {
+      const a = res.node.children[0];
+      if (assertChildren(t, a, ["x", ": y", "z"])) {
+        assertEqual(t, a.children[1].kind, NodeKind.ErrorMarker);
+        assertNodeFlags(t, a.children[1], NodeFlags.MaskSeparators, NodeFlags.IsBeforeComma);
+      }
+    }
+  });
+  t.test("skips balanced lists", t => {
+    const res = parse("a, : junk (more, stuff) here, b");
+    assertLength(t, res.errors, 1);
+    assertChildren(t, res.node, ["a", ": junk (more, stuff) here", "b"]);
+  });
+  t.test("skips to the next newline", t => {
+    const res = parse("x: 1 : 2\ny");
+    assertLength(t, res.errors, 1);
+    if (assertChildren(t, res.node, ["x", "y"])) {
+      assertChildren(t, res.node.children[0], ["1", ": 2"]);
+    }
+  });
+  t.test("keeps children of unterminated lists", t => {
+    const res = parse("a: (x y\nb");
+    assertEqual(t, res.errors[0].code, "unterminated-list");
+    if (assertChildren(t, res.node, ["a"])) {
+      assertChildren(t, res.node.children[0], ["x", "y", "b"]);
+    }
+  });
+  t.test("stray closers", t => {
+    const res = parse("a ) b");
+    assertEqual(t, res.errors[0].code, "unmatched-closer");
+    if (assertChildren(t, res.node, ["a", ")", "b"])) {
+      assertEqual(t, res.node.children[1].kind, NodeKind.ErrorMarker);
+      assertEqual(t, res.node.children[2].prev, res.node.children[1]);
+    }
+  });
+  t.test("reports every error", t => {
+    const res = parse("a: : 1\nb: ]\nc: {: 2, d}\ne");
+    assertEqual(t, res.errors.map(e => e.loc.line).join(","), "1,2,2,3");
+    assertChildren(t, res.node, ["a", "b", "]", "c", "e"]);
+  });
+});
+
+test("Printing", t => {
+  const allFlags = MatchFlags.Tags|MatchFlags.TagArguments|MatchFlags.MaskNodeFlags;
+
+  t.test("round trips", t => {
+    const cases = [
+      str,
+      "a: (b: c: d), e: f: g",
+      "a: b c: d e\nx: {1, 2; 3}\n[)",
+      "\"str\" 'str' `str` \"\"\"tri\nple\"\"\" '''a''' ```b``` \"esc\\\"aped\"",
+      "@a @b() @c(1, 2; x: y z) node",
+      "foo: { (size: u64) -> *void }",
+      "a: b, c; d: (), e: {x: y, z}",
+      "a: {x, y,}",
+      "a: (x;)",
+      "@t(x,) b",
+      "a: {\n x,\n y,\n}",
+      "io: {a, b: c,}",
+    ];
+    for (const src of cases) {
+      t.test(src.slice(0, 30), t => {
+        const original = parse(src);
+        const printed = print(original.node);
+        const reparsed = parse(printed);
+        assertLength(t, reparsed.errors, 0);
+        if (!nodeDeepMatch(original.node, reparsed.node, allFlags)) {
+          t.fail(`Printed tree did not match:\n${printed}`);
+        }
+      });
+    }
+  });
+  t.test("layout", t => {
+    assertEqual(t, print(parse("a: {x, y}\nb: 1 2 3\nc d").node), "a: {x, y}\nb: 1 2 3\nc d\n");
+    assertEqual(t, print(parse("double   GetTwist  ( ) ;").node), "double GetTwist();\n");
+    assertEqual(t, print(parse("a: {\n x,\n y,\n}\n@t(x;) b").node), "a: {x, y,}\n@t(x;) b\n");
+    assertEqual(
+      t,
+      print(parse("list: {aaaa, bbbb, cccc}").node, { lineWidth: 20, indent: "\t" }),
+      "list: {\n\taaaa,\n\tbbbb,\n\tcccc\n}\n",
+    );
+  });
+  t.test("comments", t => {
+    const src = "/* one\nlines */\na: {\n  // two\n  b\n}";
+    assertEqual(t, print(parse(src).node), "/* one\nlines */\na: {\n  // two\n  b\n}\n");
+    assertEqual(t, print(parse(src).node, { comments: false }), "a: {b}\n");
+  });
+  t.test("list styles", t => {
+    const src = "a: x y\nb: {1 2}\nc: (d: e)";
+    assertEqual(t, print(parse(src).node, { lists: "explicit" }), "a: {x y}\nb: {1 2}\nc: (d: {e})\n");
+    assertEqual(t, print(parse(src).node, { lists: "implicit" }), "a: x y\nb: 1 2\nc: d: e\n");
+  });
+  t.test("hand-built labels", t => {
+    const node = new Node(NodeKind.Main, "hello world", "", 0);
+    node.children.push(new Node(NodeKind.Main, "ident", "", 0), new Node(NodeKind.Main, "say \"hi\"", "", 0));
+    assertEqual(t, print(node), "\"hello world\": ident 'say \"hi\"'\n");
+  });
+});
+
+test("Lossless Syntax", t => {
+  t.test("round trips", t => {
+    const cases = [
+      str,
+      "  a:b,c ;\td  // trailing\n\n/* block */ e: {\r\n  f  }\n",
+      "@a @b() @c(1, 2; x: y z) node",
+      "x ] y # z \"abc",
+      "a: (b c\n/* unclosed",
+      "",
+      "//c\n,b",
+      "a\n/* before */ ; b // after\n",
+      "x: {\n  // c\n  ;\n}",
+    ];
+    for (const src of cases) {
+      t.test(src.slice(0, 30), t => {
+        assertEqual(t, printLossless(parse(src, { lossless: true }).node), src);
+      });
+    }
+  });
+  t.test("trivia", t => {
+    const root = parse("// about a\na: b // about b\n  c\n", { lossless: true }).node;
+    const a = root.childFromString("a");
+    const b = a?.childFromString("b");
+    assertEqual(t, a?.leadingTrivia.map(t => t.rawString).join(""), "// about a\n");
+    assertEqual(t, b?.trailingTrivia.map(t => t.rawString).join(""), " // about b");
+    assertLength(t, parse("a: b").node.syntax, 0);
+  });
+  t.test("edits", t => {
+    const src = "double   GetTwist  ( ) ; // keep me\n";
+    const root = parse(src, { lossless: true }).node;
+    const label = root.childFromString("GetTwist");
+    if (label) {
+      label.string = "get twist";
+    }
+    assertEqual(t, printLossless(root), "double   \"get twist\"  ( ) ; // keep me\n");
+
+    const changed = parse("a: {b   c}\nd", { lossless: true }).node;
+    changed.firstChild?.children.pop();
+    assertEqual(t, printLossless(changed), "a: {b}\nd");
+
+    const commented = parse("// about a\na: {b c}", { lossless: true }).node;
+    commented.firstChild?.children.pop();
+    assertEqual(t, printLossless(commented), "// about a\na: {b}");
+  });
+});
+
+test("Comments", t => {
+  t.test("pre and post comments", t => {
+    const root = parse(str).node;
+    const joystick = root.childFromString("io")?.childFromString("Joystick");
+    const double = joystick?.childFromString("GetTwist")?.prev;
+    assertEqual(t, double?.prevComment, " We do our own thing for these that adds deadband and stuff.");
+    assertEqual(t, double?.comment, double?.prevComment);
+    const throttleArgs = joystick?.childFromString("GetThrottle")?.next;
+    assertEqual(t, throttleArgs?.nextComment, " we do our own implementation of this");
+    assertEqual(t, joystick?.childFromString("GetRawButton")?.prev?.prevComment, " GenericHID");
+  });
+  t.test("ownership", t => {
+    const root = parse([
+      "x: u64, // size",
+      "y: a /* mid */ b, c // end",
+      "// first",
+      "// second",
+      "@t /* after tag */ q; /* q */",
+      "{r}",
+      "// nobody's",
+    ].join("\n")).node;
+    assertEqual(t, root.childFromString("x")?.nextComment, " size");
+    assertEqual(t, root.childFromString("x")?.childFromString("u64")?.nextComment, "");
+    assertEqual(t, root.childFromString("y")?.childFromString("b")?.prevComment, " mid ");
+    assertEqual(t, root.childFromString("y")?.nextComment, "");
+    assertEqual(t, root.childFromString("c")?.nextComment, " end");
+
+    const q = root.childFromString("q");
+    assertEqual(t, q?.prevComment, " after tag ");
+    assertEqual(t, q?.nextComment, " q ");
+    assertEqual(t, q?.comments.map(c => c.string).join("|"), " first| second| after tag | q ");
+    assertEqual(t, q?.tags[0].prevComment, " second");
+    assertLength(t, root.lastChild?.comments ?? [], 0);
+    assertEqual(t, root.endComments.map(c => c.string).join("|"), " nobody's");
+  });
+  t.test("end of list", t => {
+    const root = parse("a: {\n  x // one\n  // two\n}\nb: // three\n{}\n@t(y\n/* four */) c").node;
+    const a = root.childFromString("a");
+    assertEqual(t, a?.endComments.map(c => c.string).join("|"), " two");
+    assertEqual(t, a?.childFromString("x")?.postComments.map(c => c.string).join("|"), " one");
+    assertEqual(t, root.childFromString("b")?.endComments.map(c => c.string).join("|"), " three");
+    assertEqual(t, root.childFromString("c")?.tags[0].endComments.map(c => c.string).join("|"), " four ");
+  });
+  t.test("printing", t => {
+    const src = "a: {\n  x: u64 // size\n  @t q // tq\n}\nb: c d // top\n";
+    assertEqual(t, print(parse(src).node), src);
+  });
+  t.test("missing comments", t => {
+    const lost = missingComments("a // one\n/* two */ b // one\n", "a // one\nb", "f.mdesk");
+    assertEqual(t, lost.map(c => `${stringFromCodeLoc(c.loc)} ${c.rawString}`).join("|"), "f.mdesk:2:1 /* two */|f.mdesk:2:13 // one");
+    assertLength(t, missingComments("a // one", "/* one*/ a"), 0);
+  });
+  t.test("printing keeps every comment", t => {
+    const cases = [
+      "// License header\n// Copyright 2024\n\n// about a\na: 1\n\nb: 2\n// trailing notes\n",
+      "a: {\n  x // one\n  // dangling at end\n}\n",
+      "// t\n@tag(x // in tag\n  // end of tag\n) /* after tag */ @other b: // after colon\n{c}\nd: {\n  // empty\n}\n",
+      "@a(/* x */ y) n\nfoo: (a, b // c\n)",
+    ];
+    const comments = (src: string) => tokenize(src).filter(token => token.kind === TokenKind.Comment).map(token => token.rawString).sort().join("|");
+    for (const src of cases) {
+      t.test(src.slice(0, 30), t => {
+        const printed = print(parse(src).node);
+        assertEqual(t, comments(printed), comments(src));
+        assertEqual(t, print(parse(printed).node), printed);
+      });
+    }
+    assertEqual(t, print(parse(cases[1]).node), cases[1]);
+  });
+});
+
+test("Expressions", t => {
+  const table = new ExprOperatorTable()
+    .push(ExprOperatorKind.Binary, 1, "=", Associativity.Right)
+    .push(ExprOperatorKind.Binary, 2, "+")
+    .push(ExprOperatorKind.Binary, 2, "-")
+    .push(ExprOperatorKind.Binary, 3, "*")
+    .push(ExprOperatorKind.Prefix, 4, "-")
+    .push(ExprOperatorKind.Prefix, 4, "int")
+    .push(ExprOperatorKind.Prefix, 4, "double")
+    .push(ExprOperatorKind.Postfix, 5, "()")
+    .push(ExprOperatorKind.Postfix, 5, "[]")
+    .push(ExprOperatorKind.Postfix, 5, "!");
+
+  function show(expr: Expr | undefined): string {
+    if (!expr) {
+      return "?";
+    }
+    const args = expr.args.map(show).join(", ");
+    switch (expr.kind) {
+      case ExprKind.Leaf: return expr.node.string;
+      case ExprKind.Group: return `(${args})`;
+      case ExprKind.Prefix: return `(${expr.op?.string ?? "?"} ${show(expr.right)})`;
+      case ExprKind.Postfix: return `(${show(expr.left)} ${expr.op?.string ?? "?"})`;
+      case ExprKind.Binary: return `(${show(expr.left)} ${expr.op?.string ?? "?"} ${show(expr.right)})`;
+      case ExprKind.Call: return `${show(expr.left)}(${args})`;
+      case ExprKind.Index: return `${show(expr.left)}[${args}]`;
+    }
+  }
+  function exprFromSource(src: string) {
+    return parseExpr(parse(src).node.children, table);
+  }
+
+  t.test("precedence and associativity", t => {
+    assertEqual(t, show(exprFromSource("a + b * c").expr), "(a + (b * c))");
+    assertEqual(t, show(exprFromSource("a - b - c").expr), "((a - b) - c)");
+    assertEqual(t, show(exprFromSource("a = b = c").expr), "(a = (b = c))");
+    assertEqual(t, show(exprFromSource("- a * b !").expr), "((- a) * (b !))");
+    assertEqual(t, show(exprFromSource("(a + b) * c").expr), "(((a + b)) * c)");
+  });
+  t.test("calls and indexing", t => {
+    assertEqual(t, show(exprFromSource("int GetPOV(int port)").expr), "(int GetPOV((int port)))");
+    assertEqual(t, show(exprFromSource("f(a, b * c)[0]").expr), "f(a, (b * c))[0]");
+    assertEqual(t, show(exprFromSource("f()").expr), "f()");
+    const parenthesized = exprFromSource("(a)");
+    assertEqual(t, parenthesized.expr?.kind, ExprKind.Group);
+  });
+  t.test("errors", t => {
+    assertEqual(t, exprFromSource("").expr, undefined);
+    assertLength(t, exprFromSource("").errors, 0);
+
+    const missing = exprFromSource("a +");
+    assertEqual(t, missing.errors.map(e => `${e.code}@${e.offset}`).join(), "expected-operand@2");
+    assertEqual(t, show(missing.expr), "(a + ?)");
+
+    const adjacent = exprFromSource("a b");
+    assertEqual(t, adjacent.errors.map(e => `${e.code}@${e.offset}`).join(), "expected-operator@2");
+    assertEqual(t, show(adjacent.expr), "a");
+
+    const args = exprFromSource("f(a, * b)");
+    assertEqual(t, args.errors.map(e => `${e.code}@${e.loc.line}:${e.loc.column}`).join(), "expected-operand@1:6");
+  });
+});
+
+test("Schema Validation", t => {
+  const schema: NodeSchema = {
+    children: {
+      io: {
+        delimiters: "braces",
+        otherChildren: {
+          tags: { class: { minArgs: 1, maxArgs: 1, argLabelKinds: NodeFlags.StringLiteral } },
+          requiredTags: ["class"],
+          delimiters: "braces",
+          otherChildren: {
+            labelKinds: NodeFlags.Identifier | NodeFlags.Symbol,
+            tags: {
+              doc: { minArgs: 1, maxArgs: 1 },
+              constructor: {},
+              nolua: {},
+              alias: { minArgs: 1 },
+              enum: { minArgs: 1 },
+              default: { minArgs: 1 },
+            },
+          },
+        },
+      },
+    },
+    otherChildren: false,
+  };
+  function codes(src: string): string {
+    return validate(parse(src).node, schema).map(e => `${e.code}@${e.loc.line}:${e.loc.column}`).join(" ");
+  }
+
+  t.test("valid", t => {
+    assertLength(t, validate(parse(str).node, schema), 0);
+  });
+  t.test("tags", t => {
+    assertEqual(t, codes("io: { @class(x) A: {} }"), "bad-tag-arguments@1:14");
+    assertEqual(t, codes("io: { @class(\"x\", \"y\") A: {} }"), "bad-tag-arguments@1:8");
+    assertEqual(t, codes("io: { A: {} }"), "missing-tag@1:7");
+    assertEqual(t, codes("io: { @class(\"x\") A: { @bogus f } }"), "unknown-tag@1:25");
+    const [err] = validate(parse("io: { @class() A: {} }").node, schema);
+    assertEqual(t, err.message, "@class takes exactly 1 argument, but got 0");
+  });
+  t.test("children and labels", t => {
+    assertEqual(t, codes("io: {}\nother"), "unknown-child@2:1");
+    assertEqual(t, codes("io: a"), "bad-delimiters@1:1 missing-tag@1:5");
+    assertEqual(t, codes("io: { @class(\"x\") A: { 'f' 1 } }"), "bad-label-kind@1:24 bad-label-kind@1:28");
+    const required: NodeSchema = { requiredChildren: ["x"], maxChildren: 1 };
+    assertEqual(t, validate(parse("a: y z").node.children[0], required).map(e => e.code).join(), "bad-child-count,missing-child");
+  });
+});
+
+test("Value Conversion", t => {
+  function first(src: string): Node {
+    return parse(src).node.children[0];
+  }
+
+  t.test("numbers", t => {
+    assertEqual(t, nodeToNumber(first("42")).value, 42);
+    assertEqual(t, nodeToNumber(first("-7")).value, -7);
+    assertEqual(t, nodeToNumber(first("3.14")).value, 3.14);
+    assertEqual(t, nodeToNumber(first("1e-5")).value, 1e-5);
+    assertEqual(t, nodeToNumber(first("1_000")).value, 1000);
+    assertEqual(t, nodeToNumber(first("0xDEADBEEF")).value, 0xDEADBEEF);
+    assertEqual(t, nodeToNumber(first("0b1010")).value, 10);
+    assertEqual(t, nodeToNumber(first("0o755")).value, 0o755);
+    assertEqual(t, nodeToBigInt(first("0xFFFF_FFFF_FFFF_FFFF")).value, BigInt("18446744073709551615"));
+    assertEqual(t, nodeToBigInt(first("-0x10")).value, BigInt(-16));
+    assertEqual(t, nodeToNumber(first("9007199254740991")).value, Number.MAX_SAFE_INTEGER);
+    assertEqual(t, nodeToNumber(first("9007199254740992")).error?.code, "bad-number");
+  });
+  t.test("numbers without BigInt", t => {
+    // The browser builds target engines that don't have BigInt.
+    const global = globalThis as { BigInt?: unknown };
+    const bigInt = global.BigInt;
+    global.BigInt = undefined;
+    try {
+      assertEqual(t, nodeToNumber(first("-0xFF")).value, -255);
+      assertEqual(t, nodeToNumber(first("12_345")).value, 12345);
+      assertEqual(t, nodeToNumber(first("0xFFFFFFFFFFFFFFFF")).error?.code, "bad-number");
+    } finally {
+      global.BigInt = bigInt;
+    }
+  });
+  t.test("bad numbers", t => {
+    const messages = ["1__0", "0xZZ", "1.2.3", "abc", "0xFFFFFFFFFFFFFFFF"].map(src => nodeToNumber(first(src)).error?.message);
+    assertEqual(t, messages[0], "\"1__0\" is not a valid number");
+    assertEqual(t, messages[1], "\"0xZZ\" is not a valid hexadecimal number");
+    assertEqual(t, messages[2], "\"1.2.3\" is not a valid number");
+    assertEqual(t, messages[3], "expected a number, but got \"abc\"");
+    assertEqual(t, messages[4], "\"0xFFFFFFFFFFFFFFFF\" is too large to be represented exactly as a number");
+    assertEqual(t, nodeToBigInt(first("1.5")).error?.code, "bad-number");
+    assertEqual(t, nodeToNumber(parse("a 1x").node.children[1]).error?.loc.column, 3);
+  });
+  t.test("strings", t => {
+    assertEqual(t, nodeToString(first(String.raw`"say \"hi\"\n\\ \x41\u{1F600}"`)).value, "say \"hi\"\n\\ A\u{1F600}");
+    assertEqual(t, nodeToString(first("ident")).value, "ident");
+    assertEqual(t, nodeToString(first("\"\"\"\n    line one\n      indented\n\n    line two\n    \"\"\"")).value, "line one\n  indented\n\nline two");
+    assertEqual(t, nodeToString(first("'''single line'''")).value, "single line");
+    assertEqual(t, nodeToString(first(String.raw`"bad \q"`)).error?.message, "unknown escape sequence \"\\q\" in string");
+    assertEqual(t, nodeToString(first("(a)")).error?.code, "bad-string");
+  });
+  t.test("booleans", t => {
+    assertEqual(t, nodeToBoolean(first("true")).value, true);
+    assertEqual(t, nodeToBoolean(first("false")).value, false);
+    assertEqual(t, nodeToBoolean(first("\"true\"")).error?.message, "expected true or false, but got \"true\"");
+  });
+});
+
+test("JSON", t => {
+  t.test("plain", t => {
+    const src = [
+      "name: \"Joystick\\n\"",
+      "port: 0x10",
+      "enabled: true",
+      "missing: null",
+      "axes: x y z",
+      "limits: {min: -1.5, max: 1e3}",
+      "empty: {}",
+      "list: []",
+    ].join("\n");
+    assertEqual(t, JSON.stringify(toJSON(parse(src).node)), JSON.stringify({
+      name: "Joystick\n",
+      port: 16,
+      enabled: true,
+      missing: null,
+      axes: ["x", "y", "z"],
+      limits: { min: -1.5, max: 1000 },
+      empty: {},
+      list: [],
+    }));
+    assertEqual(t, JSON.stringify(toJSON(parse("a: 1\na: 2\nb").node)), "[{\"a\":1},{\"a\":2},\"b\"]");
+    assertEqual(t, JSON.stringify(toJSON(parse("@tag {1, \"two\"}").node)), "[[1,\"two\"]]");
+  });
+  t.test("plain round trip", t => {
+    const data = {
+      name: "Joystick",
+      "not an identifier": "quote \" and\nnewline",
+      truthy: "true",
+      nested: { list: [1, -2.5, true, null, { x: [] }], empty: {} },
+    };
+    const result = fromJSON(data);
+    assertLength(t, result.errors, 0);
+    const printed = print(result.node);
+    assertEqual(t, JSON.stringify(toJSON(parse(printed).node)), JSON.stringify(data));
+  });
+  t.test("lossless", t => {
+    const src = "@doc(\"hi\") foo: (1, bar) // post";
+    const json = toJSON(parse(src).node, "lossless");
+    assertEqual(t, JSON.stringify(json), JSON.stringify([{
+      label: "foo",
+      flags: ["HasParenLeft", "HasParenRight", "Identifier"],
+      tags: [{ label: "doc", flags: ["HasParenLeft", "HasParenRight", "Identifier"], children: [{ label: "hi", flags: ["StringDoubleQuote", "StringLiteral"] }] }],
+      children: [
+        { label: "1", flags: ["IsBeforeComma", "Numeric"] },
+        { label: "bar", flags: ["IsAfterComma", "Identifier"] },
+      ],
+      nextComment: " post",
+    }]));
+    const result = fromJSON(json, "lossless");
+    assertLength(t, result.errors, 0);
+    assertTrue(t, nodeDeepMatch(result.node, parse(src).node, MatchFlags.Tags|MatchFlags.TagArguments|MatchFlags.MaskNodeFlags));
+    assertEqual(t, result.node.firstChild?.tags[0].kind, NodeKind.Tag);
+  });
+  t.test("errors", t => {
+    assertEqual(t, fromJSON([{ label: 1 }, { label: "x", flags: ["Bogus"] }], "lossless").errors.map(e => e.message).join(" / "), "$[0].label: expected a string / $[1].flags[0]: unknown node flag \"Bogus\"");
+    assertEqual(t, fromJSON({ a: [1, NaN] }).errors.map(e => e.message).join(), "$.a[1]: NaN cannot be represented in Metadesk");
+  });
+});
+
+test("CLI", t => {
+  function fakeHost(files: Record<string, string>) {
+    const out = { stdout: "", stderr: "" };
+    const host: CLIHost = {
+      readFile: path => {
+        if (!(path in files)) {
+          throw new Error("no such file");
+        }
+        return files[path];
+      },
+      writeFile: (path, contents) => { files[path] = contents; },
+      stdout: text => { out.stdout += text; },
+      stderr: text => { out.stderr += text; },
+    };
+    return { host, out, files };
+  }
+
+  t.test("check", t => {
+    const { host, out } = fakeHost({ "good.mdesk": "a: b", "bad.mdesk": "a: (b" });
+    assertEqual(t, main(["check", "good.mdesk"], host), 0);
+    assertEqual(t, main(["check", "good.mdesk", "bad.mdesk"], host), 1);
+    assertTrue(t, out.stderr.startsWith("bad.mdesk:1:4: ERROR: List was not terminated [unterminated-list]"));
+    assertEqual(t, main(["check", "missing.mdesk"], host), 2);
+  });
+  t.test("fmt", t => {
+    const { host, out, files } = fakeHost({ "a.mdesk": "a:   {x,y}", "b.mdesk": "b\n", "c.mdesk": "c: (" });
+    assertEqual(t, main(["fmt", "--check", "a.mdesk", "b.mdesk"], host), 1);
+    assertEqual(t, out.stdout, "a.mdesk\n");
+    assertEqual(t, main(["fmt", "a.mdesk", "b.mdesk"], host), 0);
+    assertEqual(t, files["a.mdesk"], "a: {x, y}\n");
+    assertEqual(t, main(["fmt", "c.mdesk"], host), 1);
+    assertEqual(t, files["c.mdesk"], "c: (");
+  });
+  t.test("fmt keeps comments", t => {
+    const sources = [
+      "// License header\n// Copyright 2024\n\n// about a\na: 1\n\nb: 2\n// trailing notes\n",
+      "a: {\n  x // one\n  // dangling at end\n}\n",
+    ];
+    const { host, files } = fakeHost({ "a.mdesk": sources[0], "b.mdesk": sources[1] });
+    assertEqual(t, main(["fmt", "a.mdesk", "b.mdesk"], host), 0);
+    assertEqual(t, files["a.mdesk"], "// License header\n// Copyright 2024\n// about a\na: 1\nb: 2\n// trailing notes\n");
+    assertEqual(t, files["b.mdesk"], sources[1]);
+    assertEqual(t, main(["fmt", "--check", "a.mdesk", "b.mdesk"], host), 0);
+  });
+  t.test("dialect options", t => {
+    const { host, out, files } = fakeHost({ "a.mdesk": "langs:  {C#, F#}", "b.mdesk": "r: [0, 10)" });
+    assertEqual(t, main(["check", "a.mdesk"], host), 1);
+    assertEqual(t, main(["fmt", "--hash-in-labels", "a.mdesk"], host), 0);
+    assertEqual(t, files["a.mdesk"], "langs: {C#, F#}\n");
+    assertEqual(t, main(["check", "b.mdesk"], host), 0);
+    assertEqual(t, main(["check", "--delimiters=strict", "b.mdesk"], host), 1);
+    assertEqual(t, main(["check", "--delimiters=bogus", "b.mdesk"], host), 2);
+    assertEqual(t, main(["check", "--delimiters", "strict", "b.mdesk"], host), 1);
+    assertEqual(t, main(["check", "b.mdesk", "--delimiters"], host), 2);
+
+    out.stdout = "";
+    assertEqual(t, main(["tokens", "--hash-in-labels", "a.mdesk"], host), 0);
+    assertTrue(t, out.stdout.includes("1:9\tC# (Identifier)"));
+  });
+  t.test("dump and tokens", t => {
+    const { host, out } = fakeHost({ "a.mdesk": "@t a: b" });
+    assertEqual(t, main(["dump", "--flags=tags,children,kind", "a.mdesk"], host), 0);
+    assertTrue(t, out.stdout.includes("// kind: \"File\""));
+    assertTrue(t, out.stdout.includes("@t"));
+    assertEqual(t, main(["dump", "--flags=bogus", "a.mdesk"], host), 2);
+    out.stdout = "";
+    assertEqual(t, main(["dump", "--flags", "tags,children", "a.mdesk"], host), 0);
+    assertTrue(t, out.stdout.includes("@t"));
+
+    out.stdout = "";
+    assertEqual(t, main(["tokens", "a.mdesk"], host), 0);
+    assertEqual(t, out.stdout.split("\n")[1], "1:2\tt (Identifier)");
+  });
+  t.test("usage", t => {
+    const { host, out } = fakeHost({});
+    assertEqual(t, main([], host), 2);
+    assertTrue(t, out.stderr.startsWith("usage: mdesk"));
+    assertEqual(t, main(["fmt", "--bogus", "x"], host), 2);
+  });
+});
+
+test("Language Server", t => {
+  // A minimal LSP client that talks to the server in memory.
+  function connect() {
+    const received: Message[] = [];
+    const client = {
+      received,
+      server: undefined as unknown as LanguageServer,
+      exitCode: undefined as number | undefined,
+      nextId: 1,
+      request(method: string, params: unknown = {}): ResponseMessage | undefined {
+        const id = client.nextId++;
+        server.handleMessage({ jsonrpc: "2.0", id, method, params });
+        return received.find((m): m is ResponseMessage => "id" in m && !("method" in m) && m.id === id);
+      },
+      notify(method: string, params: unknown = {}) {
+        server.handleMessage({ jsonrpc: "2.0", method, params });
+      },
+      open(uri: string, text: string) {
+        client.notify("textDocument/didOpen", { textDocument: { uri, version: 1, languageId: "mdesk", text } });
+      },
+      diagnostics(uri: string): { range: unknown; code: string }[] | undefined {
+        const published = received.filter((m): m is NotificationMessage => "method" in m && m.method === "textDocument/publishDiagnostics");
+        const params = published.map(m => m.params as { uri: string; diagnostics: { range: unknown; code: string }[] });
+        return params.filter(p => p.uri === uri).pop()?.diagnostics;
+      },
+    };
+    const server = new LanguageServer(m => received.push(m), code => { client.exitCode = code; });
+    client.server = server;
+    return client;
+  }
+  const doc = { textDocument: { uri: "file:///a.mdesk" } };
+  const at = (line: number, character: number) => ({ ...doc, position: { line, character } });
+  const src = [
+    "// The player's controller.",
+    "Joystick: {",
+    "  port: 0 // which USB port",
+    "}",
+    "main: { Joystick }",
+  ].join("\n");
+
+  t.test("lifecycle", t => {
+    const client = connect();
+    assertEqual(t, client.request("textDocument/hover", at(0, 0))?.error?.code, -32002);
+    const init = client.request("initialize")?.result as { capabilities: Record<string, unknown> };
+    assertEqual(t, init.capabilities.hoverProvider, true);
+    assertEqual(t, client.request("bogus")?.error?.code, -32601);
+    client.request("shutdown");
+    client.notify("exit");
+    assertEqual(t, client.exitCode, 0);
+  });
+  t.test("diagnostics", t => {
+    const client = connect();
+    client.request("initialize");
+    client.open("file:///a.mdesk", "a: {\nb: (c]\n");
+    assertEqual(t, JSON.stringify(client.diagnostics("file:///a.mdesk")?.map(d => [d.code, d.range])), JSON.stringify([
+      ["unterminated-list", { start: { line: 0, character: 3 }, end: { line: 0, character: 4 } }],
+    ]));
+    client.notify("textDocument/didChange", { textDocument: { uri: "file:///a.mdesk", version: 2 }, contentChanges: [{ text: "a: {}" }] });
+    assertLength(t, client.diagnostics("file:///a.mdesk") ?? [1], 0);
+  });
+  t.test("symbols and folding", t => {
+    const client = connect();
+    client.request("initialize");
+    client.open("file:///a.mdesk", str);
+    const symbols = client.request("textDocument/documentSymbol", doc)?.result as { name: string; children: { name: string }[] }[];
+    assertEqual(t, symbols.map(s => `${s.name} > ${s.children.map(c => c.name).join()}`).join(), "io > Joystick");
+    const folds = client.request("textDocument/foldingRange", doc)?.result as { startLine: number; endLine: number }[];
+    assertEqual(t, JSON.stringify(folds.slice(0, 2)), JSON.stringify([{ startLine: 2, endLine: 21 }, { startLine: 4, endLine: 20 }]));
+  });
+  t.test("hover and definition", t => {
+    const client = connect();
+    client.request("initialize");
+    client.open("file:///a.mdesk", src);
+    const hover = (line: number, character: number) => {
+      const result = client.request("textDocument/hover", at(line, character))?.result as { contents: { value: string } } | null;
+      return result?.contents.value;
+    };
+    assertEqual(t, hover(2, 3), "which USB port");
+    assertEqual(t, hover(4, 12), "The player's controller.");
+    assertEqual(t, hover(3, 0), undefined);
+
+    const definition = client.request("textDocument/definition", at(4, 10))?.result as { range: unknown }[];
+    assertEqual(t, JSON.stringify(definition.map(d => d.range)), JSON.stringify([{ start: { line: 1, character: 0 }, end: { line: 1, character: 8 } }]));
+  });
+  t.test("formatting", t => {
+    const client = connect();
+    client.request("initialize");
+    client.open("file:///a.mdesk", "a:   {b: c}");
+    const edits = client.request("textDocument/formatting", { ...doc, options: { tabSize: 4, insertSpaces: true } })?.result as { newText: string }[];
+    assertEqual(t, edits[0].newText, "a: {b: c}\n");
+  });
+  t.test("dialect options", t => {
+    const client = connect();
+    client.request("initialize", { initializationOptions: { hashInLabels: true } });
+    client.open("file:///a.mdesk", "langs:  {C#, F#}");
+    assertLength(t, client.diagnostics("file:///a.mdesk") ?? [1], 0);
+    const edits = client.request("textDocument/formatting", { ...doc, options: { tabSize: 2, insertSpaces: true } })?.result as { newText: string }[];
+    assertEqual(t, edits[0].newText, "langs: {C#, F#}\n");
+
+    const other = connect();
+    assertEqual(t, other.request("initialize", { initializationOptions: { delimiters: "loose" } })?.error?.code, -32602);
+  });
+  t.test("bad messages", t => {
+    const client = connect();
+    client.request("initialize");
+    client.open("file:///a.mdesk", src);
+    assertEqual(t, client.request("textDocument/documentSymbol", null)?.error?.code, -32602);
+    assertEqual(t, client.request("textDocument/hover", { ...doc, position: { line: -1 } })?.error?.code, -32602);
+    assertEqual(t, client.request("textDocument/formatting", doc)?.error?.code, -32602);
+    client.notify("textDocument/didChange", { textDocument: { uri: "file:///a.mdesk", version: 2 }, contentChanges: [] });
+    client.notify("textDocument/didOpen", {});
+    assertEqual(t, (client.request("textDocument/hover", at(2, 3))?.result as { contents: { value: string } }).contents.value, "which USB port");
+
+    client.server.handleMessage(5 as unknown as Message);
+    const invalid = client.received[client.received.length - 1] as ResponseMessage;
+    assertEqual(t, `${String(invalid.id)} ${String(invalid.error?.code)}`, "null -32600");
+
+    client.server.documentFromParams = () => { throw new Error("oops"); };
+    const response = client.request("textDocument/documentSymbol", doc);
+    assertEqual(t, `${String(response?.error?.code)} ${String(response?.error?.message)}`, "-32603 oops");
+  });
+  t.test("formatting never loses comments", t => {
+    const client = connect();
+    client.request("initialize");
+    client.open("file:///a.mdesk", "a: {\n  x // one\n  // dangling at end\n}\n");
+    const options = { ...doc, options: { tabSize: 2, insertSpaces: true } };
+    assertLength(t, client.request("textDocument/formatting", options)?.result as unknown[], 0);
+
+    client.open("file:///a.mdesk", "// a\na:   b // c\n");
+    const edits = client.request("textDocument/formatting", options)?.result as { newText: string }[];
+    assertEqual(t, edits[0].newText, "// a\na: b // c\n");
+  });
+  t.test("framing", t => {
+    const frame = frameFromMessage({ jsonrpc: "2.0", method: "x", params: { text: "é" } });
+    const reader = new MessageReader();
+    assertLength(t, reader.push(frame.slice(0, 10)), 0);
+    const messages = reader.push(frame.slice(10) + frame);
+    assertEqual(t, JSON.stringify(messages.map(m => (m as NotificationMessage).params)), "[{\"text\":\"é\"},{\"text\":\"é\"}]");
+
+    // A bad frame is reported, and doesn't stop the frames after it from being read.
+    const client = connect();
+    const errorReader = new MessageReader(error => client.server.handleParseError(error));
+    const good = errorReader.push("Content-Length: 5\r\n\r\n{bad}" + frame);
+    assertEqual(t, good.length, 1);
+    assertEqual(t, (client.received[0] as ResponseMessage).error?.code, -32700);
+  });
+});
+
+test("Incremental Parsing", t => {
+  const src = [
+    "// header",
+    "a: 1, b: 2; c",
+    "@tag(x) foo: {",
+    "  bar baz, qux",
+    "} // after foo",
+    "d: e f g",
+    ") stray",
+    "last: {x}",
+    "",
+  ].join("\n");
+  const dump = (result: ParseResult) => debugDumpFromNode(result.node, 0, " ", GenerateFlags.All) + result.errors.join("\n");
+
+  // Every small edit at every offset should give the same tree and errors as parsing from scratch.
+  t.test("matches a full parse", t => {
+    let mismatches = 0;
+    for (let offset = 0; offset <= src.length; offset++) {
+      for (const [deleteLength, insertText] of [[0, "x"], [1, ""], [0, "\n"], [0, ","], [2, "{"], [0, "// c\n"]] as const) {
+        const edited = src.slice(0, offset) + insertText + src.slice(offset + deleteLength);
+        const result = parse(src).reparse({ offset, deleteLength, insertText });
+        if (dump(result) !== dump(parse(edited))) {
+          mismatches++;
+        }
+      }
+    }
+    assertEqual(t, mismatches, 0);
+  });
+  t.test("reuses untouched nodes", t => {
+    const previous = parse(src);
+    const [a, , , foo, d, , , last] = previous.node.children;
+    const result = previous.reparse({ offset: src.indexOf("baz"), deleteLength: 3, insertText: "quux\n  more" });
+    const children = result.node.children;
+    assertTrue(t, children[0] === a);
+    assertTrue(t, children[3] !== foo);
+    assertEqual(t, children[3].children.map(n => n.string).join(" "), "bar quux more qux");
+    assertTrue(t, children[4] === d);
+    assertTrue(t, children[7] === last);
+    assertEqual(t, stringFromCodeLoc(last.loc), "9:1");
+    assertEqual(t, last.offset, result.node.rawString.indexOf("last"));
+    assertEqual(t, stringFromCodeLoc(result.errors[0].loc), "8:1");
+  });
+  t.test("lossless results are parsed again", t => {
+    const result = parse("a b\nc", { lossless: true }).reparse({ offset: 2, deleteLength: 1, insertText: "B" });
+    assertEqual(t, printLossless(result.node), "a B\nc");
+  });
+});
+
+test("Parse Limits", t => {
+  t.test("no limit on loops", t => {
+    const src = "n ".repeat(20000) + "// " + "x ".repeat(20000);
+    const result = parse(src);
+    assertLength(t, result.errors, 0);
+    assertLength(t, result.node.children, 20000);
+  });
+  t.test("depth", t => {
+    const result = parse("a b\n" + "{".repeat(2000) + "}".repeat(2000) + "\nc");
+    assertEqual(t, result.errors.map(err => `${err.toString()} [${err.code}]`).join("\n"), "2:501: nodes are nested more than 500 deep [too-deep]");
+    assertChildren(t, result.node, ["a", "b"]);
+    assertEqual(t, parse("a: (b: (c: d))", { maxDepth: 3 }).errors[0]?.code, "too-deep");
+    assertLength(t, parse("a: (b: (c: d))", { maxDepth: 4 }).errors, 0);
+    assertEqual(t, parse("@t(@u(v) w) x", { maxDepth: 1 }).errors[0]?.toString(), "1:4: nodes are nested more than 1 deep");
+  });
+  t.test("node count", t => {
+    const result = parse("a: {x y}, b: {z}, c", { maxNodes: 5 });
+    assertEqual(t, result.errors[0]?.toString(), "1:19: the file has more than 5 nodes");
+    assertChildren(t, result.node, ["a", "b"]);
+    assertEqual(t, parse("@t(v) x", { maxNodes: 2 }).errors[0]?.code, "too-many-nodes");
+  });
+  t.test("source size", t => {
+    const result = parse("a: {x y}", { maxSourceSize: 4 });
+    assertEqual(t, result.errors[0]?.toString(), "1:1: the source is 8 characters long, more than the limit of 4");
+    assertLength(t, result.node.children, 0);
+    assertLength(t, parse("a: {x y}", { maxSourceSize: 8 }).errors, 0);
+  });
+  t.test("lone slashes are symbols", t => {
+    assertChildren(t, parse("a / b /").node, ["a", "/", "b", "/"]);
+  });
+});
+
+test("Parse Options", t => {
+  t.test("trace", t => {
+    const events: string[] = [];
+    const src = "@t(x) a: b }";
+    let consumed = "";
+    parse(src, {
+      trace: e => {
+        switch (e.kind) {
+          case "enter": case "exit": events.push(`${e.kind} ${e.rule} ${e.offset}`); break;
+          case "consume": consumed += e.token.rawString; break;
+          case "error": events.push(`error ${e.error.code}`); break;
+        }
+      },
+    });
+    assertEqual(t, consumed, src);
+    assertEqual(t, events.join("\n"), [
+      "enter file 0",
+      "enter node 0",
+      "enter tag-list 0",
+      "enter explicit-list 2",
+      "enter node 3",
+      "enter tag-list 3",
+      "exit tag-list 3",
+      "exit node 4",
+      "exit explicit-list 5",
+      "exit tag-list 6",
+      "enter implicit-list 9",
+      "enter node 9",
+      "enter tag-list 9",
+      "exit tag-list 9",
+      "exit node 10",
+      "exit implicit-list 11",
+      "exit node 11",
+      "error unmatched-closer",
+      "exit file 12",
+    ].join("\n"));
+  });
+  t.test("hashInLabels", t => {
+    const src = "lang: C#, #define x";
+    assertEqual(t, parse(src).errors[0]?.code, "reserved-character");
+    const result = parse(src, { hashInLabels: true });
+    assertLength(t, result.errors, 0);
+    assertChildren(t, result.node, ["lang", "#define", "x"]);
+    assertChildren(t, result.node.children[0], ["C#"]);
+
+    assertEqual(t, print(result.node, { parseOptions: { hashInLabels: true } }), "lang: C#\n#define x\n");
+    assertEqual(t, print(result.node), "lang: \"C#\"\n\"#define\" x\n");
+    const lossless = parse(src, { hashInLabels: true, lossless: true }).node;
+    lossless.children[1].string = "#undef";
+    assertEqual(t, printLossless(lossless, { hashInLabels: true }), "lang: C#, #undef x");
+  });
+  t.test("crlfNewlines", t => {
+    const src = "a: b c\r\nd 'x\r\ne'";
+    assertEqual(t, tokenize(src).filter(tok => tok.kind === TokenKind.Newline).length, 2);
+    const tokens = tokenize(src, "", { crlfNewlines: true }).filter(tok => tok.kind === TokenKind.Newline);
+    assertEqual(t, tokens.map(tok => tok.rawString).join(""), "\r\n\r\n");
+
+    const result = parse(src, { crlfNewlines: true });
+    assertChildren(t, result.node, ["a", "d", "x", "e", ""]);
+    assertEqual(t, result.node.children[2].rawString, "'x");
+  });
+  t.test("delimiters", t => {
+    const src = "r: [0, 10), s: {1}";
+    assertLength(t, parse(src).errors, 0);
+    const errors = parse(src, { delimiters: "strict" }).errors;
+    assertEqual(t, errors.map(err => err.toString()).join("\n"), "1:4: \"[\" and \")\" cannot be used together\n1:10: note: list was closed here");
+  });
+});
+
+test("Streaming", t => {
+  const src = [
+    "// header",
+    "a: 1, b: 2; c",
+    "@tag(x) foo: {",
+    "  bar \"baz\", qux",
+    "} // after foo",
+    "/* block /* nested */ still */ d: e f g",
+    ") stray",
+    "\"\"\"triple",
+    "\"\" quoted\"\"\" last",
+    "",
+  ].join("\n");
+  const dump = (nodes: Node[], errors: ParseError[]) => [
+    ...nodes.map(node => debugDumpFromNode(node, 0, " ", GenerateFlags.All) + stringFromCodeLoc(node.endLoc)),
+    ...errors.map(err => err.toString()),
+  ].join("\n");
+  const expected = parseFile("log", src);
+
+  function streamed(chunks: string[]): string {
+    const parser = new StreamParser("log");
+    const nodes = chunks.flatMap(chunk => parser.push(chunk));
+    nodes.push(...parser.end());
+    return dump(nodes, parser.errors);
+  }
+
+  // Chunk boundaries can fall anywhere, including inside tokens and between the slashes of a
+  // comment.
+  t.test("matches a full parse", t => {
+    let mismatches = 0;
+    for (let i = 0; i <= src.length; i++) {
+      if (streamed([src.slice(0, i), src.slice(i)]) !== dump(expected.node.children, expected.errors)) {
+        mismatches++;
+      }
+    }
+    assertEqual(t, mismatches, 0);
+    assertEqual(t, streamed([...src]), dump(expected.node.children, expected.errors));
+  });
+  t.test("errors of recovered nodes", t => {
+    const sources = ["@t\n)\n1", "a\n, b\n) c\n@x ;\n@y\n]\nd", "x: (\n@t\n}\n) y"];
+    for (const source of sources) {
+      const errors = (list: ParseError[]) => list.map(err => `${err.code}@${err.offset}`).join(" ");
+      const full = errors(parseFile("log", source).errors);
+      for (let i = 0; i <= source.length; i++) {
+        for (let j = i; j <= source.length; j++) {
+          const parser = new StreamParser("log");
+          parser.push(source.slice(0, i));
+          parser.push(source.slice(i, j));
+          parser.push(source.slice(j));
+          parser.end();
+          if (errors(parser.errors) !== full) {
+            t.fail(`chunks ${JSON.stringify([source.slice(0, i), source.slice(i, j), source.slice(j)])}: got ${errors(parser.errors)}, expected ${full}`);
+          }
+        }
+      }
+    }
+  });
+  t.test("nodes are returned once complete", t => {
+    const parser = new StreamParser();
+    assertLength(t, parser.push("a: b c"), 0);
+    assertLength(t, parser.push("\n"), 0);
+    const labels = (nodes: Node[]) => nodes.map(node => node.string).join(" ");
+    assertEqual(t, labels(parser.push("  d: {e")), "a");
+    assertEqual(t, labels([...parser.push("}, f"), ...parser.end()]), "d f");
+    assertLength(t, parser.push("g"), 0);
+  });
+  t.test("limits", t => {
+    const parser = new StreamParser("", { maxSourceSize: 8 });
+    const nodes = [...parser.push("a b\nc"), ...parser.push(" dd e"), ...parser.end()];
+    assertEqual(t, nodes.map(node => node.string).join(" "), "a b c dd");
+    assertEqual(t, parser.errors.join("\n"), "2:5: the source is more than 8 characters long");
+  });
+
+  async function* iterate<T>(items: T[], read: T[] = []) {
+    for (const item of items) {
+      await Promise.resolve(); // Like a real stream, chunks arrive later.
+      read.push(item);
+      yield item;
+    }
+  }
+  async function collect(nodes: AsyncIterable<Node>): Promise<Node[]> {
+    const out: Node[] = [];
+    for await (const node of nodes) {
+      out.push(node);
+    }
+    return out;
+  }
+
+  t.test("parseStream", async t => {
+    // One byte per chunk splits every multi-byte character.
+    const unicode = "a: \"héllo 😀\"\nb: ✓ c\n// ünïcode\nd";
+    const bytes = [...new TextEncoder().encode(unicode)].map(byte => Uint8Array.of(byte));
+    const parser = new StreamParser("log");
+    const nodes = await collect(parseStream(iterate(bytes), parser));
+    const full = parseFile("log", unicode);
+    assertEqual(t, dump(nodes, parser.errors), dump(full.node.children, full.errors));
+    assertEqual(t, nodes[0].children[0].string, "héllo 😀");
+
+    // Strings and bytes can be mixed.
+    const mixed = await collect(parseStream(iterate<string | Uint8Array>([src.slice(0, 40), new TextEncoder().encode(src.slice(40))]), new StreamParser("log")));
+    assertEqual(t, dump(mixed, []), dump(expected.node.children, []));
+  });
+  t.test("parseStream iteration", async t => {
+    // Calls to next that overlap still return nodes in order.
+    const stream = parseStream(iterate(["a b", " c\nd"]));
+    const results = await Promise.all([stream.next(), stream.next(), stream.next(), stream.next(), stream.next()]);
+    assertEqual(t, results.map(result => result.done ? "done" : result.value.string).join(" "), "a b c d done");
+
+    // Stopping early stops reading the chunks.
+    const read: string[] = [];
+    for await (const node of parseStream(iterate(["a\n", "b\n", "c\n", "d\n"], read))) {
+      if (node.string === "a") {
+        break;
+      }
+    }
+    assertEqual(t, read.join(""), "a\nb\n");
+  });
+});
+
+test("Tree Walking", t => {
+  const root = parse("@a(x) b: { c, @d e: f }, g").node;
+  const allFlags = WalkFlags.Tags | WalkFlags.TagArguments;
+  const names = (nodes: Iterable<Node>) => [...nodes].map(node => node.string).join(",");
+
+  t.test("preorder and postorder", t => {
+    assertEqual(t, names(preorder(root)), ",b,c,e,f,g");
+    assertEqual(t, names(postorder(root)), "c,f,e,b,g,");
+    assertEqual(t, names(preorder(root, WalkFlags.Tags)), ",b,a,c,e,d,f,g");
+    assertEqual(t, names(preorder(root, allFlags)), ",b,a,x,c,e,d,f,g");
+  });
+
+  t.test("walk", t => {
+    const events: string[] = [];
+    const finished = walk(root, {
+      enter: (node, depth) => { events.push(`enter ${node.string} ${depth}`); },
+      leave: (node, depth) => { events.push(`leave ${node.string} ${depth}`); },
+    });
+    assertTrue(t, finished);
+    assertEqual(t, events.join(","), [
+      "enter  0", "enter b 1", "enter c 2", "leave c 2", "enter e 2", "enter f 3", "leave f 3",
+      "leave e 2", "leave b 1", "enter g 1", "leave g 1", "leave  0",
+    ].join(","));
+  });
+
+  t.test("skipping and stopping", t => {
+    const entered: string[] = [];
+    assertTrue(t, walk(root, {
+      enter: node => {
+        entered.push(node.string);
+        return node.string === "b" ? WalkAction.Skip : WalkAction.Continue;
+      },
+    }, allFlags));
+    assertEqual(t, entered.join(","), ",b,g");
+
+    const left: string[] = [];
+    assertFalse(t, walk(root, {
+      enter: node => node.string === "f" ? WalkAction.Stop : undefined,
+      leave: node => { left.push(node.string); },
+    }));
+    assertEqual(t, left.join(","), "c");
+    assertFalse(t, walk(root, { leave: node => node.string === "c" ? WalkAction.Stop : undefined }));
+  });
+
+  t.test("transform", t => {
+    const tree = parse("a: { b c d }\n@t(x) e\nf").node;
+    transform(tree, node => {
+      switch (node.string) {
+        case "b": return [];
+        case "c": return [node, new Node(NodeKind.Main, "c2", "c2", 0)];
+        case "x": return new Node(NodeKind.Main, "y", "y", 0);
+        case "f": return parseSingleNode("g: { h }");
+      }
+    }, allFlags);
+    assertEqual(t, names(preorder(tree, allFlags)), ",a,c,c2,d,e,t,y,g,h");
+
+    // Links are consistent everywhere.
+    for (const node of preorder(tree, allFlags)) {
+      const list = node.kind === NodeKind.Tag ? node.parent?.tags : node.parent?.children;
+      if (node !== tree) {
+        const i = list?.indexOf(node) ?? -1;
+        assertTrue(t, i >= 0);
+        assertTrue(t, node.prev === list?.[i - 1] && node.next === list?.[i + 1]);
+      }
+    }
+
+    // Removed and replaced nodes are unlinked.
+    const removed = tree.children[0].children[0];
+    const kept = tree.children[0].children[1];
+    transform(tree, node => node === removed ? [] : undefined);
+    assertTrue(t, removed.parent === undefined && removed.next === undefined);
+    assertTrue(t, kept.prev === undefined && kept.parent === tree.children[0]);
+
+    // Without the flags, tags are left alone and the root isn't passed.
+    const seen: string[] = [];
+    transform(tree, (node, depth) => { seen.push(`${node.string} ${depth}`); });
+    assertEqual(t, seen.join(","), "c2 2,d 2,a 1,e 1,h 2,g 1");
+  });
+});
+
+test("Tree Building", t => {
+  t.test("labels", t => {
+    const flagsOf = (node: Node) => nodeFlagNames.filter(name => node.flags & NodeFlags[name]).join(",");
+    assertEqual(t, flagsOf(makeNode("foo")), "Identifier");
+    assertEqual(t, flagsOf(makeNode("0x1F")), "Numeric");
+    assertEqual(t, flagsOf(makeNode("+=")), "Symbol");
+    assertEqual(t, flagsOf(makeNode("")), "");
+    const str = makeNode("'a b'", { flags: NodeFlags.HasBraceLeft | NodeFlags.HasBraceRight });
+    assertEqual(t, str.string, "a b");
+    assertEqual(t, flagsOf(str), "HasBraceLeft,HasBraceRight,StringSingleQuote,StringLiteral");
+    assertEqual(t, makeNode("t", { kind: NodeKind.Tag }).kind, NodeKind.Tag);
+    for (const bad of ["a b", "@", "\"unterminated", " a", ":"]) {
+      let threw = false;
+      try {
+        makeNode(bad);
+      } catch {
+        threw = true;
+      }
+      assertTrue(t, threw);
+    }
+
+    assertEqual(t, flagsOf(makeLabel("name")), "Identifier");
+    assertEqual(t, flagsOf(makeLabel("true")), "StringDoubleQuote,StringLiteral");
+    assertEqual(t, flagsOf(makeLabel(true)), "Identifier");
+    assertEqual(t, makeLabel(-1.5).string, "-1.5");
+    assertEqual(t, nodeToBigInt(makeLabel(-(BigInt(2) ** BigInt(70)))).value, -(BigInt(2) ** BigInt(70)));
+    let threw = false;
+    try {
+      makeLabel(NaN);
+    } catch {
+      threw = true;
+    }
+    assertTrue(t, threw);
+  });
+
+  t.test("strings round-trip", t => {
+    const values = ["plain", "say \"hi\"", "it's \"x\"", "all \"'` three", "line\nbreak\\ \t", ""];
+    const file = makeNode("", { kind: NodeKind.File });
+    for (const value of values) {
+      assertEqual(t, nodeToString(makeString(value)).value, value);
+      pushChild(file, makeString(value));
+    }
+    assertEqual(t, makeString("say \"hi\"").rawString, "'say \"hi\"'");
+    const reparsed = parse(print(file));
+    assertLength(t, reparsed.errors, 0);
+    assertEqual(t, JSON.stringify(reparsed.node.children.map(n => nodeToString(n).value)), JSON.stringify(values));
+  });
+
+  t.test("mutation", t => {
+    const file = makeNode("", { kind: NodeKind.File });
+    const struct = pushChild(file, makeNode("Point", { flags: NodeFlags.HasBraceLeft | NodeFlags.HasBraceRight }));
+    const x = pushChild(struct, makeNode("x"));
+    const z = pushChild(struct, makeNode("z"));
+    insertChild(struct, 1, makeNode("y"));
+    pushTag(struct, makeNode("packed", { kind: NodeKind.Tag }));
+    pushChild(x, makeNode("f32"));
+    assertEqual(t, print(file), "@packed Point: {x: f32, y z}\n");
+
+    const checkLinks = () => {
+      for (const node of preorder(file, WalkFlags.Tags | WalkFlags.TagArguments)) {
+        const list = node.kind === NodeKind.Tag ? node.parent?.tags : node.parent?.children;
+        if (node !== file) {
+          const i = list?.indexOf(node) ?? -1;
+          assertTrue(t, i >= 0 && node.prev === list?.[i - 1] && node.next === list?.[i + 1]);
+        }
+      }
+    };
+    checkLinks();
+
+    // Inserting a node that is already in the tree moves it.
+    insertChild(struct, 0, z);
+    assertChildren(t, struct, ["z", "x", "y"]);
+    pushChild(file, x);
+    assertChildren(t, struct, ["z", "y"]);
+    assertChildren(t, file, ["Point", "x"]);
+    checkLinks();
+
+    const w = replaceNode(struct.children[1], makeNode("w"));
+    assertChildren(t, struct, ["z", "w"]);
+    assertTrue(t, w.prev === z && z.next === w && w.parent === struct);
+    replaceNode(struct.tags[0], makeNode("aligned", { kind: NodeKind.Tag }));
+    assertEqual(t, struct.tags[0].string, "aligned");
+
+    // A failed insert leaves the tree alone.
+    let threw = false;
+    try {
+      insertChild(struct, 2, z);
+    } catch (e) {
+      threw = e instanceof Error && e.message.includes("list of 2");
+    }
+    assertTrue(t, threw);
+    assertChildren(t, struct, ["z", "w"]);
+    assertTrue(t, z.parent === struct && z.next === w);
+    insertChild(struct, 1, z);
+    assertChildren(t, struct, ["w", "z"]);
+    insertChild(struct, 0, z);
+
+    removeChild(struct, z);
+    assertTrue(t, z.parent === undefined && z.next === undefined && w.prev === undefined);
+    assertChildren(t, struct, ["w"]);
+    checkLinks();
+
+    for (const bad of [() => removeChild(struct, z), () => pushTag(struct, makeNode("nope")), () => insertChild(struct, 5, z), () => replaceNode(z, w)]) {
+      let threw = false;
+      try {
+        bad();
+      } catch {
+        threw = true;
+      }
+      assertTrue(t, threw);
+    }
+  });
+
+  t.test("deep copy", t => {
+    const original = parseSingleNode("@doc(\"hi\") a: { b, c: d } // note");
+    const copy = deepCopy(original);
+    assertTrue(t, nodeDeepMatch(original, copy, MatchFlags.Tags | MatchFlags.TagArguments | MatchFlags.MaskNodeFlags));
+    assertEqual(t, copy.nextComment, original.nextComment);
+    assertTrue(t, copy.nextComment.includes("note"));
+    assertTrue(t, copy.parent === undefined && copy.children[0] !== original.children[0]);
+    assertTrue(t, copy.children[1].parent === copy && copy.children[1].prev === copy.children[0]);
+    assertTrue(t, copy.tags[0].children[0].parent === copy.tags[0]);
+
+    pushChild(copy, makeNode("e"));
+    assertChildren(t, original, ["b", "c"]);
+
+    // Lossless syntax points at the copied children, so the copy prints the same source.
+    const src = "a: {  b ,c } // x\n";
+    const lossless = parse(src, { lossless: true }).node;
+    assertEqual(t, printLossless(deepCopy(lossless)), src);
+  });
+});
+
+test("Selectors", t => {
+  const root = parse(str).node;
+  const labels = (nodes: Node[]) => nodes.map(node => node.string).join(",");
+
+  t.test("paths", t => {
+    assertEqual(t, labels(query(root, "io/Joystick")), "Joystick");
+    assertEqual(t, labels(query(root, "io/*/@class")), "class");
+    assertEqual(t, labels(query(root, "Joystick")), "");
+    assertEqual(t, labels(query(root, "io / \"Joystick\" / GetPOV")), "GetPOV");
+    assertTrue(t, query(root, "**/GetTwist")[0] === root.children[0].childFromString("Joystick")?.childFromString("GetTwist"));
+    assertEqual(t, labels(query(root, "**/@doc")), "doc");
+    assertEqual(t, labels(query(root, "**/@doc/*")), "Construct an instance of a joystick.");
+    assertEqual(t, labels(query(root, "**/port")), "port,port");
+    assertTrue(t, query(root, "**")[0] === root);
+  });
+
+  t.test("conditions", t => {
+    assertEqual(t, labels(query(root, "io/Joystick/*[@constructor]")), "new");
+    assertEqual(t, labels(query(root, "io/Joystick/*[@alias(GetButtonHeld)]")), "bool");
+    assertEqual(t, labels(query(root, "io/Joystick/*[@alias(Other)]")), "");
+    assertEqual(t, labels(query(root, "io/Joystick/*[@alias()]")), "");
+    assertEqual(t, labels(query(root, "**/*[@default(*)]")), "int");
+    assertEqual(t, labels(query(root, "*[@include(\"<frc/Joystick.h>\")]")), "io");
+    assertEqual(t, labels(query(root, "io/Joystick/*[@nolua]")), "double,double");
+    assertEqual(t, labels(query(root, "io/Joystick/*[:identifier][!@nolua][!@constructor][!@alias]")), "double,GetTwist,GetThrottle,GetRawButton,GetRawAxis,int,GetPOV,int,GetAxisCount");
+    assertEqual(t, query(root, "io/Joystick/*[!:identifier]").length, 7);
+    assertEqual(t, labels(query(root, "**/@doc/*[:string]")), "Construct an instance of a joystick.");
+  });
+
+  t.test("order and duplicates", t => {
+    const tree = parse("a: { x: { x } y } x").node;
+    assertEqual(t, query(tree, "**/x").map(node => node.parent?.string ?? "?").join(","), "a,x,");
+    assertEqual(t, query(tree, "**/**/x").length, 3);
+    assertEqual(t, queryOne(tree, "**/x")?.parent?.string, "a");
+    assertEqual(t, queryOne(tree, "**/z"), undefined);
+  });
+
+  t.test("compiled selectors", t => {
+    const selector = new Selector("*/SCHEMA[@KEY]");
+    assertEqual(t, selector.source, "*/SCHEMA[@KEY]");
+    const a = parse("a: { @key schema }").node;
+    const b = parse("b: { @Key Schema, @key other }").node;
+    assertLength(t, query(a, selector), 0);
+    assertLength(t, query(a, selector, MatchFlags.CaseInsensitive), 1);
+    assertEqual(t, queryOne(b, selector, MatchFlags.CaseInsensitive)?.string, "Schema");
+  });
+
+  t.test("syntax errors", t => {
+    const cases: [string, string][] = [
+      ["", "expected a name"],
+      ["a/", "expected a name"],
+      ["a b", "expected \"/\" or the end of the selector"],
+      ["a[@b", "expected \"]\""],
+      ["a[b]", "expected \"@\""],
+      ["a[:word]", "unknown label kind \"word\""],
+      ["a[@b(c d)]", "expected \")\""],
+    ];
+    for (const [selector, message] of cases) {
+      let error = "";
+      try {
+        new Selector(selector);
+      } catch (e) {
+        error = e instanceof Error ? e.message : "";
+      }
+      if (!error.includes(message)) {
+        t.fail(`${JSON.stringify(selector)}: expected an error containing ${JSON.stringify(message)}, but got ${JSON.stringify(error)}`);
+      }
+    }
+  });
+});
+
 run("nested unscoped sets with following children");